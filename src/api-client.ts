@@ -21,6 +21,20 @@ import axios, { AxiosInstance, AxiosError } from 'axios';
 import * as crypto from 'crypto';
 import { Property, ScraperResult } from './shared-types';
 import { createLogger } from './logger';
+import { RateLimiter } from './rate-limiter';
+import { extractTypeDetails, parsePropertyKind } from './real-estate-types';
+import { schemaMonitor } from './schema-monitor';
+import { extractRentCosts } from './rent-costs';
+import { computeAcquisitionCosts, extractPurchaseCosts } from './purchase-costs';
+import { extractEnergyCertificate } from './energy-certificate';
+import {
+  ValidationMode,
+  enforceValidation,
+  validateRestExposeResponse,
+  validateRestSearchResponse
+} from './response-validator';
+import { ListingProcessingError, toSnippet } from './errors';
+import { config } from './config';
 
 const logger = createLogger('IS24ApiClient');
 
@@ -115,6 +129,7 @@ export interface ApiSearchResult {
 
 export interface ApiListingEntry {
   '@id'?: string;
+  '@publishDate'?: string;
   '@creation'?: string;
   '@modification'?: string;
   realEstate?: ApiRealEstate;
@@ -150,6 +165,19 @@ export interface ApiRealEstate {
       value?: number;
     };
   };
+  baseRent?: number;        // Kaltmiete
+  serviceCharge?: number;   // Nebenkosten
+  heatingCosts?: number;
+  heatingCostsInServiceCharge?: string; // YES, NO, NOT_APPLICABLE
+  totalRent?: number;       // Warmmiete
+  deposit?: string | number; // Kaution, often free text ("3 Kaltmieten")
+  courtage?: {
+    hasCourtage?: string;   // YES, NO
+    courtage?: string;      // Buyer commission, e.g. "3,57 % inkl. MwSt."
+    courtageNote?: string;
+  };
+  rented?: boolean | string; // vermietet
+  rentalIncome?: number;    // Current monthly rental income
   livingSpace?: number;
   numberOfRooms?: number;
   numberOfBedRooms?: number;
@@ -168,6 +196,17 @@ export interface ApiRealEstate {
   handicappedAccessible?: boolean;
   petsAllowed?: string;
   energyEfficiencyClass?: string;
+  energyCertificate?: {
+    energyCertificateAvailability?: string; // AVAILABLE, NOT_AVAILABLE_YET, NOT_REQUIRED
+    energyCertificateCreationDate?: string; // BEFORE_01_MAY_2014, FROM_01_MAY_2014 or a date
+    energyEfficiencyClass?: string;         // A_PLUS, A, ..., H
+  };
+  buildingEnergyRatingType?: string;        // ENERGY_CONSUMPTION, ENERGY_REQUIRED
+  thermalCharacteristic?: number;           // Energy value in kWh/(m²·a)
+  energyConsumptionContainsWarmWater?: string;
+  energySourcesEnev2014?: {
+    energySourceEnev2014?: string | string[];
+  };
   condition?: string;
   heatingType?: string;
   constructionYear?: number;
@@ -190,18 +229,25 @@ export interface ApiRealEstate {
   };
   realtorCompanyName?: string;
   commercializationType?: string;
+  // Type-specific fields (plotArea, totalFloorSpace, garageType, ...),
+  // see REAL_ESTATE_TYPES
+  [field: string]: unknown;
 }
 
 /**
  * Search parameters for REST API
  */
 export interface IS24ApiSearchParams {
-  realestatetype: string;  // ApartmentRent, ApartmentBuy, HouseRent, HouseBuy
+  realestatetype: string;  // ApartmentRent, HouseBuy, LivingBuySite, Office, ... (see real-estate-types.ts)
   geocodes?: string;        // IS24 geocode (e.g., 1276003001046 for Berlin)
   geocoordinates?: string;  // lat;lon;radius for radius search
+  shape?: string;           // Encoded polyline for shape (polygon) search
   price?: string;           // min-max format
   livingspace?: string;     // min-max format
   numberofrooms?: string;   // min-max format
+  plotarea?: string;        // min-max format (land)
+  totalfloorspace?: string; // min-max format (commercial)
+  commercializationtype?: 'buy' | 'rent';  // Commercial types
   pagenumber?: number;
   pagesize?: number;
   balcony?: boolean;
@@ -212,6 +258,7 @@ export interface IS24ApiSearchParams {
   cellar?: boolean;
   newbuilding?: boolean;
   firstactivation?: string; // yyyy-MM-ddTHH:mm:ss
+  sorting?: string;         // e.g. -firstactivation (newest first)
   constructionyear?: string;
   condition?: string;
   heatingtype?: string;
@@ -229,7 +276,9 @@ export class IS24RestApiClient {
     private consumerKey?: string,
     private consumerSecret?: string,
     private accessToken?: string,
-    private accessSecret?: string
+    private accessSecret?: string,
+    private rateLimiter?: RateLimiter,
+    private validationMode: ValidationMode = config.validation.mode
   ) {
     // Initialize OAuth signer if credentials provided
     if (consumerKey && consumerSecret && accessToken && accessSecret) {
@@ -268,12 +317,21 @@ export class IS24RestApiClient {
       }
       return config;
     });
+
+    // Take a token from the shared limiter before every request. Interceptors
+    // registered later run first, so OAuth signing happens after the wait.
+    if (rateLimiter) {
+      this.client.interceptors.request.use(async config => {
+        await rateLimiter.acquire();
+        return config;
+      });
+    }
   }
 
   /**
    * Create a client with credentials from environment variables
    */
-  static fromEnv(): IS24RestApiClient {
+  static fromEnv(rateLimiter?: RateLimiter, validationMode?: ValidationMode): IS24RestApiClient {
     const consumerKey = process.env.IS24_CONSUMER_KEY;
     const consumerSecret = process.env.IS24_CONSUMER_SECRET;
     const accessToken = process.env.IS24_ACCESS_TOKEN;
@@ -284,7 +342,14 @@ export class IS24RestApiClient {
       logger.info('Set environment variables: IS24_CONSUMER_KEY, IS24_CONSUMER_SECRET, IS24_ACCESS_TOKEN, IS24_ACCESS_SECRET');
     }
 
-    return new IS24RestApiClient(consumerKey, consumerSecret, accessToken, accessSecret);
+    return new IS24RestApiClient(consumerKey, consumerSecret, accessToken, accessSecret, rateLimiter, validationMode);
+  }
+
+  /**
+   * Check whether OAuth credentials are configured
+   */
+  hasCredentials(): boolean {
+    return this.signer !== null;
   }
 
   /**
@@ -308,9 +373,13 @@ export class IS24RestApiClient {
       queryParams.append('realestatetype', params.realestatetype);
       if (params.geocodes) queryParams.append('geocodes', params.geocodes);
       if (params.geocoordinates) queryParams.append('geocoordinates', params.geocoordinates);
+      if (params.shape) queryParams.append('shape', params.shape);
       if (params.price) queryParams.append('price', params.price);
       if (params.livingspace) queryParams.append('livingspace', params.livingspace);
       if (params.numberofrooms) queryParams.append('numberofrooms', params.numberofrooms);
+      if (params.plotarea) queryParams.append('plotarea', params.plotarea);
+      if (params.totalfloorspace) queryParams.append('totalfloorspace', params.totalfloorspace);
+      if (params.commercializationtype) queryParams.append('commercializationtype', params.commercializationtype);
       if (params.pagenumber) queryParams.append('pagenumber', params.pagenumber.toString());
       if (params.pagesize) queryParams.append('pagesize', params.pagesize.toString());
       if (params.balcony) queryParams.append('balcony', 'true');
@@ -321,17 +390,21 @@ export class IS24RestApiClient {
       if (params.cellar) queryParams.append('cellar', 'true');
       if (params.newbuilding) queryParams.append('newbuilding', 'true');
       if (params.firstactivation) queryParams.append('firstactivation', params.firstactivation);
+      if (params.sorting) queryParams.append('sorting', params.sorting);
       if (params.constructionyear) queryParams.append('constructionyear', params.constructionyear);
       if (params.condition) queryParams.append('condition', params.condition);
       if (params.heatingtype) queryParams.append('heatingtype', params.heatingtype);
 
-      const endpoint = params.geocoordinates ? '/search/v1.0/search/radius' : '/search/v1.0/search/region';
+      const endpoint = params.shape
+        ? '/search/v1.0/search/shape'
+        : params.geocoordinates ? '/search/v1.0/search/radius' : '/search/v1.0/search/region';
       const url = `${endpoint}?${queryParams.toString()}`;
 
       logger.debug(`Searching: ${url}`);
 
       const response = await this.client.get<ApiSearchResult>(url);
       const data = response.data;
+      enforceValidation('rest search', validateRestSearchResponse(data), this.validationMode, data);
 
       // Parse response
       const paging = data['resultlist.resultlist']?.paging;
@@ -348,6 +421,8 @@ export class IS24RestApiClient {
         }
       }
 
+      schemaMonitor.observeRestSearch(data, properties);
+
       return {
         properties,
         totalHits: paging?.numberOfHits || 0,
@@ -364,33 +439,37 @@ export class IS24RestApiClient {
 
   /**
    * Get property details by ID
+   *
+   * Returns null only when the expose no longer exists (404); a response
+   * that cannot be parsed throws a parse_error.
    */
   async getExpose(exposeId: string): Promise<Property | null> {
+    let response;
     try {
-      const response = await this.client.get<{ expose?: { realEstate?: ApiRealEstate } }>(
+      response = await this.client.get<{ expose?: { realEstate?: ApiRealEstate } }>(
         `/expose/v1.0/exposes/${exposeId}`
       );
-
-      const realEstate = response.data.expose?.realEstate;
-      if (!realEstate) {
-        return null;
-      }
-
-      // Create dummy entry for parsing
-      const entry: ApiListingEntry = {
-        '@id': exposeId,
-        realEstate
-      };
-
-      return this.parseProperty(entry);
     } catch (error) {
       const axiosError = error as AxiosError;
       if (axiosError.response?.status === 404) {
         return null;
       }
       logger.error(`Get expose error: ${axiosError.message}`);
-      return null;
+      throw error;
     }
+
+    enforceValidation('rest expose', validateRestExposeResponse(response.data), this.validationMode, response.data);
+    const realEstate = response.data.expose?.realEstate;
+    const property = realEstate ? this.parseProperty({ '@id': exposeId, realEstate }) : null;
+    if (!property) {
+      throw new ListingProcessingError(
+        'parse_error',
+        `Expose ${exposeId} response ${realEstate ? 'could not be parsed' : 'has no realEstate'}`,
+        response.status,
+        toSnippet(response.data)
+      );
+    }
+    return property;
   }
 
   /**
@@ -409,15 +488,17 @@ export class IS24RestApiClient {
       const title = realEstate.title || 'Property';
       const description = realEstate.description || '';
 
-      // Extract price
-      let price = 0;
-      let currency = 'EUR';
-      if (realEstate.price?.value) {
-        price = realEstate.price.value;
-        currency = realEstate.price.currency || 'EUR';
-      } else if (realEstate.calculatedTotalRent?.totalRent?.value) {
-        price = realEstate.calculatedTotalRent.totalRent.value;
-      }
+      // Determine transaction type
+      const marketingType = (
+        realEstate.price?.marketingType || realEstate.commercializationType || realEstate['@xsi.type'] || ''
+      ).toLowerCase();
+      const transactionType: 'sale' | 'rent' = marketingType.includes('rent') || marketingType.includes('miete') ? 'rent' : 'sale';
+
+      // Extract price; rent is the base rent, falling back to the total rent
+      // (the breakdown is kept in rentCosts)
+      const currency = realEstate.price?.currency || 'EUR';
+      const rentCosts = transactionType === 'rent' ? extractRentCosts(realEstate) : undefined;
+      const price = (rentCosts ? rentCosts.baseRent ?? rentCosts.totalRent : realEstate.price?.value) || 0;
 
       // Extract location
       const address = realEstate.address;
@@ -425,6 +506,9 @@ export class IS24RestApiClient {
       const region = address?.quarter || undefined;
       const postcode = address?.postcode || undefined;
       const fullAddress = address?.street ? `${address.street} ${address.houseNumber || ''}`.trim() : undefined;
+      const purchaseCosts = transactionType === 'sale' && price
+        ? computeAcquisitionCosts(price, extractPurchaseCosts(realEstate), postcode, city)
+        : undefined;
 
       // Extract coordinates
       const coordinates = address?.wgs84Coordinate ? {
@@ -432,21 +516,19 @@ export class IS24RestApiClient {
         lon: address.wgs84Coordinate.longitude || 0
       } : undefined;
 
+      // Determine property type and its type-specific fields
+      const propertyType = parsePropertyKind(realEstate['@xsi.type']);
+      const typeDetails = extractTypeDetails(propertyType, realEstate);
+      const energyCertificate = extractEnergyCertificate(realEstate, propertyType);
+
       // Extract details
-      const sqm = realEstate.livingSpace;
+      const sqm = typeDetails.sqm;
       const rooms = realEstate.numberOfRooms;
       const bedrooms = realEstate.numberOfBedRooms;
       const bathrooms = realEstate.numberOfBathRooms;
       const floor = realEstate.floor;
       const totalFloors = realEstate.numberOfFloors;
 
-      // Determine transaction type
-      const marketingType = realEstate.price?.marketingType?.toLowerCase() || '';
-      const transactionType: 'sale' | 'rent' = marketingType.includes('rent') || marketingType.includes('miete') ? 'rent' : 'sale';
-
-      // Determine property type
-      const propertyType = this.parsePropertyType(realEstate['@xsi.type'] || '');
-
       // Extract features
       const features: string[] = [];
       if (realEstate.balcony) features.push('balcony');
@@ -460,7 +542,6 @@ export class IS24RestApiClient {
       if (realEstate.condition) features.push(`condition-${realEstate.condition.toLowerCase()}`);
       if (realEstate.heatingType) features.push(`heating-${realEstate.heatingType.toLowerCase()}`);
       if (realEstate.parkingSpaceType) features.push(`parking-${realEstate.parkingSpaceType.toLowerCase()}`);
-      if (realEstate.energyEfficiencyClass) features.push(`energy-class-${realEstate.energyEfficiencyClass}`);
 
       // Extract images
       const images: string[] = [];
@@ -501,6 +582,8 @@ export class IS24RestApiClient {
         },
         details: {
           sqm,
+          plotArea: typeDetails.plotArea,
+          floorSpace: typeDetails.floorSpace,
           rooms,
           bedrooms,
           bathrooms,
@@ -510,6 +593,9 @@ export class IS24RestApiClient {
           description,
           availableFrom: realEstate.freeFrom
         },
+        ...(rentCosts && { rentCosts }),
+        ...(purchaseCosts && { purchaseCosts }),
+        ...(energyCertificate && { energyCertificate }),
         features,
         images,
         agent: agencyName ? {
@@ -525,7 +611,10 @@ export class IS24RestApiClient {
           marketingType: realEstate.price?.marketingType,
           condition: realEstate.condition,
           heatingType: realEstate.heatingType,
-          petsAllowed: realEstate.petsAllowed
+          petsAllowed: realEstate.petsAllowed,
+          realEstateType: realEstate['@xsi.type'],
+          publishedAt: entry['@publishDate'] || entry['@creation'],
+          ...typeDetails.metadata
         }
       };
 
@@ -535,18 +624,6 @@ export class IS24RestApiClient {
       return null;
     }
   }
-
-  /**
-   * Parse property type from API type string
-   */
-  private parsePropertyType(typeString: string): 'apartment' | 'house' | 'land' | 'commercial' | 'property' {
-    const type = typeString.toLowerCase();
-    if (type.includes('wohnung') || type.includes('apartment')) return 'apartment';
-    if (type.includes('haus') || type.includes('house')) return 'house';
-    if (type.includes('grundst') || type.includes('land')) return 'land';
-    if (type.includes('gewerbe') || type.includes('buero') || type.includes('commercial')) return 'commercial';
-    return 'property';
-  }
 }
 
 /**
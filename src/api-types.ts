@@ -12,7 +12,18 @@ export enum RealEstateType {
   APARTMENT_BUY = 'ApartmentBuy',
   APARTMENT_RENT = 'ApartmentRent',
   HOUSE_BUY = 'HouseBuy',
-  HOUSE_RENT = 'HouseRent'
+  HOUSE_RENT = 'HouseRent',
+  LIVING_BUY_SITE = 'LivingBuySite',
+  LIVING_RENT_SITE = 'LivingRentSite',
+  GARAGE_BUY = 'GarageBuy',
+  GARAGE_RENT = 'GarageRent',
+  OFFICE = 'Office',
+  STORE = 'Store',
+  GASTRONOMY = 'Gastronomy',
+  INDUSTRY = 'Industry',
+  INVESTMENT = 'Investment',
+  SHORT_TERM_ACCOMMODATION = 'ShortTermAccommodation',
+  FLAT_SHARE_ROOM = 'FlatShareRoom'
 }
 
 /**
@@ -69,7 +80,7 @@ export enum HeatingType {
 }
 
 /**
- * Energy Efficiency Classes (EU Standard)
+ * Energy Efficiency Classes (Energieausweis, GEG)
  */
 export enum EnergyClass {
   A_PLUS = 'A+',
@@ -79,7 +90,8 @@ export enum EnergyClass {
   D = 'D',
   E = 'E',
   F = 'F',
-  G = 'G'
+  G = 'G',
+  H = 'H'
 }
 
 /**
@@ -220,6 +232,17 @@ export interface RealEstate {
 
   // Energy & Condition
   energyEfficiencyClass?: string;
+  energyCertificate?: {
+    energyCertificateAvailability?: string; // AVAILABLE, NOT_AVAILABLE_YET, NOT_REQUIRED
+    energyCertificateCreationDate?: string; // BEFORE_01_MAY_2014, FROM_01_MAY_2014 or a date
+    energyEfficiencyClass?: string;         // A_PLUS, A, ..., H
+  };
+  buildingEnergyRatingType?: string;        // ENERGY_CONSUMPTION, ENERGY_REQUIRED
+  thermalCharacteristic?: number;           // Energy value in kWh/(m²·a)
+  energyConsumptionContainsWarmWater?: string;
+  energySourcesEnev2014?: {
+    energySourceEnev2014?: string | string[];
+  };
   condition?: string;
   heatingType?: string;
 
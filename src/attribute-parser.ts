@@ -0,0 +1,236 @@
+/**
+ * Result List Attribute Interpreter
+ *
+ * Mobile API result items carry their key figures as display attributes,
+ * e.g. [{label: "", value: "227.144 €"}, {label: "", value: "34,26 m²"},
+ * {label: "", value: "1 Zi."}]. The order is not fixed: houses add the plot
+ * size, plots have no rooms, projects show "ab" prices or price ranges and
+ * commercial listings show €/m² prices. Attributes are therefore classified
+ * by label and unit rather than by position:
+ *
+ * - € values are prices; €/m² values are prices per m²; labelled extra
+ *   costs (Nebenkosten, Hausgeld, Provision, ...) and warm rent are not
+ *   taken as the price while a plain price is present. Extra costs are
+ *   recognized by label even without a unit ("Kaution: 3 Kaltmieten") and
+ *   kept for the rent cost breakdown (rent-costs.ts)
+ * - m² values are living space, plot area (Grundstück) or floor space
+ *   (Nutz-, Gesamt-, Bürofläche, ...) by label; unlabelled areas are
+ *   assigned by resolveAreas(), which needs the real-estate type
+ * - "Zi." / "Zimmer" values are rooms
+ * - "ab 250.000 €" sets priceFrom; "250.000 - 480.000 €" sets priceMax
+ *
+ * Every figure records the attribute it came from, so mis-parsed listings
+ * can be traced back to the raw attribute.
+ */
+
+export interface ListingAttribute {
+  label?: string;
+  value?: string;
+}
+
+export type AttributeKind =
+  | 'price'
+  | 'warmRent'
+  | 'extraCost'
+  | 'pricePerSqm'
+  | 'livingSpace'
+  | 'plotArea'
+  | 'floorSpace'
+  | 'area'                  // m² without a label saying which area
+  | 'rooms'
+  | 'unknown';
+
+/**
+ * One classified attribute
+ */
+export interface ParsedAttribute {
+  index: number;
+  label: string;
+  value: string;
+  kind: AttributeKind;
+  amount?: number;          // First (or only) number
+  maxAmount?: number;       // Upper end of a range
+  isFrom?: boolean;         // "ab" prefix
+  currency?: string;
+}
+
+export type AttributeField = 'price' | 'warmRent' | 'pricePerSqm' | 'livingSpace' | 'plotArea' | 'floorSpace' | 'rooms';
+
+/**
+ * Figures read from a result item's attributes
+ */
+export interface InterpretedAttributes {
+  price?: number;
+  priceMax?: number;        // Upper end of a project price range
+  priceFrom?: boolean;      // Price is a lower bound ("ab")
+  currency: string;
+  warmRent?: number;
+  extraCosts: ParsedAttribute[]; // Labelled extra costs (Nebenkosten, Kaution, ...), in attribute order
+  pricePerSqm?: number;
+  livingSpace?: number;
+  plotArea?: number;
+  floorSpace?: number;
+  unlabeledAreas: ParsedAttribute[]; // m² values without a label, in attribute order
+  rooms?: number;
+  sources: Partial<Record<AttributeField, string>>;
+  unrecognized: string[];   // Attributes that could not be classified
+}
+
+// Labelled money amounts that are not the asking price
+const EXTRA_COST_PATTERN = /nebenkosten|hausgeld|provision|kaution|heizkosten|betriebskosten/;
+const WARM_RENT_PATTERN = /warm|gesamtmiete/;
+const PLOT_AREA_PATTERN = /grundst|grst\b/;
+const LIVING_SPACE_PATTERN = /wohnfl|wfl\b/;
+const FLOOR_SPACE_PATTERN = /nutzfl|gesamtfl|b(ü|ue)rofl|verkaufsfl|lagerfl|hallenfl|gewerbefl|gastrofl/;
+
+/**
+ * Classify the attributes of a result item and pick its key figures
+ */
+export function interpretAttributes(attributes?: ListingAttribute[]): InterpretedAttributes {
+  const result: InterpretedAttributes = {
+    currency: 'EUR',
+    extraCosts: [],
+    unlabeledAreas: [],
+    sources: {},
+    unrecognized: []
+  };
+  if (!attributes) return result;
+
+  const parsed = attributes.map((attribute, index) => classifyAttribute(attribute, index));
+
+  // Plain price first, warm rent only when nothing else is given
+  const price = parsed.find(attr => attr.kind === 'price') || parsed.find(attr => attr.kind === 'warmRent');
+  if (price?.amount !== undefined) {
+    result.price = price.amount;
+    result.currency = price.currency || 'EUR';
+    if (price.maxAmount !== undefined) result.priceMax = price.maxAmount;
+    if (price.isFrom) result.priceFrom = true;
+    result.sources.price = describeAttribute(price);
+  }
+
+  for (const attr of parsed) {
+    switch (attr.kind) {
+      case 'warmRent':
+      case 'pricePerSqm':
+      case 'livingSpace':
+      case 'plotArea':
+      case 'floorSpace':
+      case 'rooms':
+        if (result[attr.kind] === undefined && attr.amount !== undefined) {
+          result[attr.kind] = attr.amount;
+          result.sources[attr.kind] = describeAttribute(attr);
+        }
+        break;
+      case 'area':
+        if (attr.amount !== undefined) result.unlabeledAreas.push(attr);
+        break;
+      case 'extraCost':
+        result.extraCosts.push(attr);
+        break;
+      case 'unknown':
+        result.unrecognized.push(describeAttribute(attr));
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Assign unlabelled areas: the first one is the type's main size and, when
+ * withPlot is set (houses), the next one the plot area. Labelled areas take
+ * precedence.
+ */
+export function resolveAreas(
+  attributes: InterpretedAttributes,
+  mainField: 'livingSpace' | 'plotArea' | 'floorSpace',
+  withPlot: boolean = false
+): InterpretedAttributes {
+  const resolved: InterpretedAttributes = { ...attributes, sources: { ...attributes.sources } };
+  const unlabeled = [...attributes.unlabeledAreas];
+
+  const fields: Array<'livingSpace' | 'plotArea' | 'floorSpace'> = withPlot ? [mainField, 'plotArea'] : [mainField];
+  for (const field of fields) {
+    if (resolved[field] !== undefined) continue;
+
+    const area = unlabeled.shift();
+    if (!area) break;
+    resolved[field] = area.amount;
+    resolved.sources[field] = describeAttribute(area);
+  }
+
+  resolved.unlabeledAreas = unlabeled;
+  return resolved;
+}
+
+/**
+ * Classify one attribute by its label and unit
+ */
+export function classifyAttribute(attribute: ListingAttribute, index: number): ParsedAttribute {
+  const label = (attribute.label || '').trim();
+  const value = (attribute.value || '').trim();
+  const text = `${label} ${value}`.toLowerCase();
+  const amounts = parseNumbers(value);
+
+  const parsed: ParsedAttribute = {
+    index,
+    label,
+    value,
+    kind: 'unknown',
+    amount: amounts[0]
+  };
+
+  if (amounts.length > 1 && /\s(-|–|bis)\s|\d(-|–)\d/.test(value)) {
+    parsed.maxAmount = amounts[1];
+  }
+  if (/^ab\b/i.test(value) || /\bab\b/i.test(label)) {
+    parsed.isFrom = true;
+  }
+
+  const isMoney = /€|\beur\b|\bchf\b|\$/.test(text);
+  const isArea = /m²|\bm2\b|\bqm\b/.test(text);
+
+  if (/\bzi\b|\bzi\.|zimmer/.test(text)) {
+    parsed.kind = 'rooms';
+  } else if (isMoney && isArea) {
+    parsed.kind = 'pricePerSqm';
+  } else if (EXTRA_COST_PATTERN.test(label.toLowerCase())) {
+    parsed.kind = 'extraCost';
+    if (isMoney) parsed.currency = parseCurrency(value);
+  } else if (isMoney) {
+    parsed.currency = parseCurrency(value);
+    parsed.kind = WARM_RENT_PATTERN.test(label.toLowerCase()) ? 'warmRent' : 'price';
+  } else if (isArea) {
+    if (PLOT_AREA_PATTERN.test(text)) parsed.kind = 'plotArea';
+    else if (LIVING_SPACE_PATTERN.test(text)) parsed.kind = 'livingSpace';
+    else if (FLOOR_SPACE_PATTERN.test(text)) parsed.kind = 'floorSpace';
+    else parsed.kind = 'area';
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse the numbers in a German-formatted display value
+ * ("1.234.567 €" -> [1234567], "34,26 m²" -> [34.26], "1 - 3,5 Zi." -> [1, 3.5])
+ */
+export function parseNumbers(value: string): number[] {
+  // Drop units containing digits ("m2") so they are not read as numbers
+  const cleaned = value.replace(/m2\b/gi, 'm²');
+  const matches = cleaned.match(/\d{1,3}(?:\.\d{3})+(?:,\d+)?|\d+(?:,\d+)?/g) || [];
+
+  return matches
+    .map(match => parseFloat(match.replace(/\./g, '').replace(',', '.')))
+    .filter(number => !isNaN(number));
+}
+
+function parseCurrency(value: string): string {
+  return value.includes('CHF') ? 'CHF' : value.includes('$') ? 'USD' : 'EUR';
+}
+
+/**
+ * Short description of the attribute a figure was read from
+ */
+function describeAttribute(attr: ParsedAttribute): string {
+  return `attributes[${attr.index}]${attr.label ? ` ${attr.label}` : ''}: ${attr.value}`;
+}
@@ -2,6 +2,9 @@
  * ImmobilienScout24 Scraper Configuration
  */
 
+import { RateLimitConfig } from './api-types';
+import { RuleName } from './plausibility-rules';
+
 export const config = {
   // Portal identification
   portal: 'immobilienscout24',
@@ -19,6 +22,93 @@ export const config = {
   requestDelay: 1000,        // ms between requests
   maxConcurrent: 3,          // concurrent requests
 
+  // Listing provider used by coordinator and workers (mobile | rest)
+  provider: {
+    name: (process.env.IS24_PROVIDER === 'rest' ? 'rest' : 'mobile') as 'mobile' | 'rest',
+    fallbackToMobile: process.env.IS24_PROVIDER_FALLBACK !== 'false'
+  },
+
+  // Search plans reject property kinds whose IS24 type names are not yet
+  // confirmed against live responses, unless explicitly allowed
+  realEstateTypes: {
+    allowUnconfirmed: process.env.ALLOW_UNCONFIRMED_TYPES === 'true'
+  },
+
+  // Cluster-wide token buckets (shared by coordinator and all workers)
+  rateLimit: {
+    mobile: {
+      requestsPerSecond: parseFloat(process.env.IS24_MOBILE_RPS || '') || 1,
+      burstSize: parseInt(process.env.IS24_MOBILE_BURST || '', 10) || 3
+    } as RateLimitConfig,
+    rest: {
+      requestsPerSecond: parseFloat(process.env.IS24_REST_RPS || '') || 1,
+      burstSize: parseInt(process.env.IS24_REST_BURST || '', 10) || 3
+    } as RateLimitConfig
+  },
+
+  // Incremental crawling ("new since last run"); the overlap re-reads a
+  // margin before the last crawl to absorb activation lag and clock skew
+  incremental: {
+    enabled: process.env.INCREMENTAL_CRAWL === 'true',
+    overlapMinutes: parseInt(process.env.INCREMENTAL_OVERLAP_MINUTES || '', 10) || 15
+  },
+
+  // Delisting detection: listings missing from a full crawl of a search are
+  // checked via their expose and marked removed on a 404. A crawl missing
+  // more than maxMissingRatio of the previous one is assumed to be broken.
+  delisting: {
+    enabled: process.env.DELISTING_DETECTION !== 'false',
+    maxMissingRatio: parseFloat(process.env.DELISTING_MAX_MISSING_RATIO || '') || 0.3
+  },
+
+  // Change detection: unchanged listings are not re-ingested; price, rent,
+  // living space and status changes are kept per listing
+  history: {
+    enabled: process.env.LISTING_HISTORY !== 'false',
+    maxEntries: parseInt(process.env.LISTING_HISTORY_MAX_ENTRIES || '', 10) || 50
+  },
+
+  // Schema-drift detection on search responses; a run fails after
+  // maxDriftedPages pages in a row with no listings or missing fields
+  schemaDrift: {
+    failOnDrift: process.env.SCHEMA_DRIFT_FAIL !== 'false',
+    maxMissingRatio: parseFloat(process.env.SCHEMA_DRIFT_MAX_MISSING_RATIO || '') || 0.5,
+    maxDriftedPages: parseInt(process.env.SCHEMA_DRIFT_MAX_PAGES || '', 10) || 3,
+    minPageItems: 5
+  },
+
+  // Runtime validation of API responses: strict rejects malformed
+  // responses, lenient logs the problems and parses them anyway
+  validation: {
+    mode: (process.env.RESPONSE_VALIDATION === 'strict' ? 'strict' : 'lenient') as 'strict' | 'lenient'
+  },
+
+  // Plausibility rules checked before ingestion; failing listings are
+  // quarantined instead of being sent to the Core Service
+  plausibility: {
+    enabled: process.env.PLAUSIBILITY_CHECKS !== 'false',
+    pricePerSqm: {
+      sale: { min: 100, max: 30000 },
+      rent: { min: 1, max: 300 }
+    },
+    minRooms: 0.5,
+    minConstructionYear: 1200,
+    maxYearsAhead: 10,
+    disabledRules: (process.env.PLAUSIBILITY_DISABLED_RULES || '')
+      .split(',').map(rule => rule.trim()).filter(Boolean) as RuleName[]
+  },
+
+  // Queue settings
+  queue: {
+    visibilityTimeout: parseInt(process.env.QUEUE_VISIBILITY_TIMEOUT_MS || '', 10) || 5 * 60 * 1000,
+    reaperInterval: parseInt(process.env.QUEUE_REAPER_INTERVAL_MS || '', 10) || 60 * 1000
+  },
+
+  // Worker registry
+  workers: {
+    heartbeatInterval: parseInt(process.env.WORKER_HEARTBEAT_INTERVAL_MS || '', 10) || 10 * 1000
+  },
+
   // Scraping settings
   useStealthBrowser: false,  // Set to true if bot detection issues
   needsProxy: false,
@@ -4,129 +4,417 @@
  * Discovers all property IDs from ImmobilienScout24 and pushes to Redis queue.
  *
  * Features:
- * - City-based discovery (German cities)
+ * - Search plan file (regions, property types, filters, priority, frequency)
+ * - Adaptive search partitioning (price / living space / rooms bands) so no
+ *   search exceeds the page limit
  * - Multiple property types (apartment, house)
  * - Multiple transaction types (rent, sale)
  * - Global deduplication via Redis Sets
+ * - Mobile or REST API (IS24_PROVIDER), with fallback to the mobile API
+ * - Shares the cluster-wide rate limiter with workers
+ * - Search-result payloads stored with IDs (workers skip re-fetching)
+ * - Per-run namespaces (each invocation starts a fresh run)
+ * - Resumable: planned searches and per-search page checkpoints are kept in
+ *   Redis, so a restarted coordinator continues an unfinished run
+ * - Incremental mode: searches crawled before only fetch listings activated
+ *   since their last successful crawl, newest first, up to the first known ID;
+ *   a search that hits the page limit is crawled in full (partitioned) next
+ * - Delisting detection: after a full crawl of a search, listings missing
+ *   since its last full crawl are confirmed via their expose and deactivated
+ * - Schema-drift monitoring: drift reports are stored with the run, and the
+ *   run fails when search responses stop yielding complete listings
  * - Queue-based architecture for distributed processing
  *
  * Usage:
  *   npm run coordinator
+ *   npm run coordinator -- --plan plans/south.json   # Alternate search plan
+ *   npm run coordinator -- --force                   # Ignore crawl frequency
+ *   npm run coordinator -- --restart                 # Ignore checkpoints, start a new run
+ *   npm run coordinator -- --incremental             # New listings since the last crawl
+ *
+ * The plan is read from --plan, SEARCH_PLAN or ./search-plan.json, falling
+ * back to the built-in plan (Berlin, all types). Incremental mode can also
+ * be enabled with INCREMENTAL_CRAWL=true; a search without a previous
+ * successful crawl is crawled in full.
  */
 
-import { ImmobilienScout24Scraper, GEOCODES, IS24ScraperOptions } from './scraper';
 import { RedisQueue } from './redis-queue';
+import { RedisRateLimiter } from './rate-limiter';
+import { ListingProvider, createListingProvider } from './listing-provider';
+import { SearchPartitioner, DiscoveryTask, describeTask } from './search-partitioner';
+import { DelistingDetector } from './delisting-detector';
+import { ListingHistoryStore } from './listing-history';
+import { SchemaDriftError, schemaMonitor } from './schema-monitor';
+import { PropertyKind, supportsTransaction } from './real-estate-types';
+import {
+  SearchPlan,
+  ResolvedSearch,
+  FREQUENCY_MS,
+  loadSearchPlan,
+  validateSearchPlan,
+  resolveSearchPlan
+} from './search-plan';
+import { config } from './config';
 import { createLogger } from './logger';
 
 const logger = createLogger('Coordinator');
 
-// German cities with geocodes
-const GERMAN_CITIES: Record<string, string> = {
-  'Berlin': GEOCODES.BERLIN,
-  // Add more cities as geocodes are discovered
-};
+export interface CoordinatorOptions {
+  planPath?: string;
+  force?: boolean;          // Crawl every search regardless of its frequency
+  restart?: boolean;        // Start a new run even if the last one is unfinished
+  incremental?: boolean;    // Only crawl listings activated since the last crawl
+}
+
+// Consecutive failures of one discovery task before the run is aborted
+const MAX_TASK_FAILURES = 3;
 
 export class ImmobilienScout24Coordinator {
   private queue: RedisQueue;
-  private scraper: ImmobilienScout24Scraper;
+  private provider: ListingProvider;
+  private rateLimiters: { mobile: RedisRateLimiter; rest: RedisRateLimiter };
+  private partitioner: SearchPartitioner;
+  private maxResultsPerSearch = config.maxPagesPerSearch * config.resultsPerPage;
+  private plan: SearchPlan;
+  private force: boolean;
+  private restart: boolean;
+  private incremental: boolean;
+
+  constructor(options: CoordinatorOptions = {}) {
+    this.plan = loadSearchPlan(options.planPath);
+    this.force = options.force || false;
+    this.restart = options.restart || false;
+    this.incremental = options.incremental ?? config.incremental.enabled;
 
-  constructor() {
     this.queue = new RedisQueue('immobilienscout24');
-    this.scraper = new ImmobilienScout24Scraper({
+    this.rateLimiters = {
+      mobile: new RedisRateLimiter('immobilienscout24', 'mobile', config.rateLimit.mobile),
+      rest: new RedisRateLimiter('immobilienscout24', 'rest', config.rateLimit.rest)
+    };
+    this.provider = createListingProvider(this.rateLimiters, {
       verbose: true,
-      rateLimit: 2000,
-      pageSize: 20
+      pageSize: config.resultsPerPage
     });
+    this.partitioner = new SearchPartitioner(this.provider, this.maxResultsPerSearch);
   }
 
   async initialize() {
+    // Refuse to start a run on an invalid plan
+    const validation = validateSearchPlan(this.plan);
+    for (const warning of validation.warnings) {
+      logger.warn(`Search plan: ${warning.field}: ${warning.warning}`);
+    }
+    if (!validation.valid) {
+      for (const error of validation.errors) {
+        logger.error(`Search plan: ${error.field}: ${error.error} (${JSON.stringify(error.value)})`);
+      }
+      throw new Error(`Invalid search plan (${validation.errors.length} errors)`);
+    }
+
+    // Continue an unfinished run, otherwise start a fresh run namespace
+    let runId = this.restart ? null : await this.queue.resumeDiscoveryRun();
+    if (!runId) {
+      runId = await this.queue.startRun(process.env.RUN_ID || undefined);
+    }
     await this.queue.initialize();
 
-    logger.info('Coordinator initialized');
+    logger.info(
+      `Coordinator initialized (run ${runId}, ${this.provider.name} API` +
+      `${this.incremental ? ', incremental' : ''})`
+    );
   }
 
   /**
-   * Discover property IDs for a specific search
+   * Partition a plan search into leaf searches and queue them as discovery tasks
    */
-  async discoverProperties(
-    city: string,
-    geocode: string,
+  async planSearch(
+    search: ResolvedSearch,
     transactionType: 'sale' | 'rent',
-    propertyType: 'apartment' | 'house'
+    propertyType: PropertyKind
   ): Promise<number> {
-    logger.info(`Discovering ${city} - ${propertyType} (${transactionType})...`);
+    const searchKey = getSearchKey(search.name, transactionType, propertyType);
+    if (await this.queue.isSearchPlanned(searchKey)) {
+      logger.info(`Already planned ${search.name} - ${propertyType} (${transactionType}), skipping`);
+      return 0;
+    }
 
-    try {
-      // Use scraper to search
-      const properties = await this.scraper.scrapeSearch(
+    // Incremental: one newest-first search since the last crawl, no partitioning
+    const lastCrawl = this.incremental ? await this.queue.getIncrementalCrawlTime(searchKey) : null;
+    if (lastCrawl) {
+      const since = new Date(lastCrawl.getTime() - config.incremental.overlapMinutes * 60 * 1000);
+      const task: DiscoveryTask = {
+        city: search.name,
+        ...(search.area ? { area: search.area } : { geocode: search.geocode }),
         transactionType,
         propertyType,
-        geocode,
-        10000 // Max results per search
-      );
-
-      // Extract IDs
-      const ids = properties.map(p => p.id);
+        filters: { ...search.filters },
+        hits: 0,
+        since: since.toISOString()
+      };
+      logger.info(`Planning ${describeTask(task)} (incremental)`);
+      await this.queue.pushDiscoveryTasks([task], searchKey);
+      return 1;
+    }
 
-      // Push to queue (with deduplication)
-      const newCount = await this.queue.pushListingIds(ids);
+    logger.info(`Planning ${search.name} - ${propertyType} (${transactionType})...`);
 
-      logger.info(
-        `${city} - ${propertyType} (${transactionType}): Found ${ids.length}, New: ${newCount}`
+    try {
+      const tasks = await this.partitioner.partition(
+        search.name,
+        search.area || search.geocode!,
+        transactionType,
+        propertyType,
+        search.filters
       );
-
-      return newCount;
+      await this.queue.pushDiscoveryTasks(tasks, searchKey);
+      return tasks.length;
     } catch (error) {
       logger.error(
-        `Error discovering ${city} - ${propertyType} (${transactionType}):`,
+        `Error planning ${search.name} - ${propertyType} (${transactionType}):`,
         error
       );
+      await this.queue.markScopePartial(searchKey);
       return 0;
     }
   }
 
   /**
-   * Discover all German cities
+   * Select plan searches that are due according to their crawl frequency
+   */
+  private async getDueSearches(): Promise<ResolvedSearch[]> {
+    const searches = resolveSearchPlan(this.plan);
+    if (this.force) {
+      return searches;
+    }
+
+    const crawlTimes = await this.queue.getSearchCrawlTimes();
+    const now = Date.now();
+
+    return searches.filter(search => {
+      const lastCrawl = crawlTimes[search.name];
+      if (lastCrawl && now - new Date(lastCrawl).getTime() < FREQUENCY_MS[search.frequency]) {
+        logger.info(`Skipping ${search.name}: crawled ${lastCrawl} (${search.frequency})`);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Discover property IDs for a single leaf search
+   *
+   * Listings are queued page by page and each completed page is checkpointed,
+   * so a resumed task continues after its last completed page. Errors are
+   * rethrown and leave the task queued.
+   */
+  async discoverProperties(task: DiscoveryTask): Promise<number> {
+    const label = describeTask(task);
+    const lastPage = await this.queue.getPageCheckpoint(task);
+    logger.info(
+      `Discovering ${label}${task.since ? '' : ` (~${task.hits} hits)`}` +
+      (lastPage > 0 ? `, resuming after page ${lastPage}...` : '...')
+    );
+
+    let newCount = 0;
+
+    // Only a complete result set can reveal delistings
+    const scope = getSearchKey(task.city, task.transactionType, task.propertyType);
+    const complete = !task.since && !task.truncated;
+    if (!complete) {
+      await this.queue.markScopePartial(scope);
+    }
+
+    // Use the configured provider to search
+    const properties = await this.provider.searchListings(
+      {
+        transactionType: task.transactionType,
+        propertyType: task.propertyType,
+        geocode: task.geocode,
+        area: task.area,
+        filters: task.filters
+      },
+      this.maxResultsPerSearch,
+      {
+        startPage: lastPage + 1,
+        throwOnError: true,
+        ...(task.since && {
+          since: new Date(task.since),
+          hasKnownIds: ids => this.queue.hasKnownIds(ids),
+          onTruncated: async () => {
+            logger.warn(`${label}: incremental search hit the page limit; crawling it in full next run`);
+            await this.queue.markScopeTruncated(scope);
+          }
+        }),
+        onPage: async (page, pageProperties) => {
+          // Push to queue with full payloads (with deduplication)
+          newCount += await this.queue.pushListings(pageProperties);
+          if (complete) {
+            await this.queue.recordScopeIds(scope, pageProperties.map(p => p.id));
+          }
+          await this.queue.savePageCheckpoint(task, page);
+        }
+      }
+    );
+
+    await this.queue.completeDiscoveryTask(task);
+
+    logger.info(`${label}: Found ${properties.length}, New: ${newCount}`);
+
+    return newCount;
+  }
+
+  /**
+   * Discover all due searches in the search plan
    */
-  async discoverAllCities(): Promise<void> {
-    logger.info('=== STARTING CITY-BASED DISCOVERY ===\n');
+  async discoverAll(): Promise<void> {
+    logger.info('=== STARTING PLAN-BASED DISCOVERY ===\n');
+    const startedAt = new Date();
 
-    const transactionTypes: ('sale' | 'rent')[] = ['sale', 'rent'];
-    const propertyTypes: ('apartment' | 'house')[] = ['apartment', 'house'];
+    const searches = await this.getDueSearches();
 
-    let totalCities = 0;
+    let totalTasks = 0;
     let totalNewIds = 0;
+    const searchKeys = new Map<string, string[]>();
+
+    // Plan: split every search into leaf searches under the page limit,
+    // highest priority first (the task list is drained in insertion order)
+    for (const search of searches) {
+      const keys: string[] = [];
+      searchKeys.set(search.name, keys);
+
+      for (const transactionType of search.transactionTypes) {
+        for (const propertyType of search.propertyTypes) {
+          if (!supportsTransaction(propertyType, transactionType)) {
+            continue;
+          }
+          keys.push(getSearchKey(search.name, transactionType, propertyType));
+          totalTasks += await this.planSearch(search, transactionType, propertyType);
+        }
+      }
+    }
+
+    logger.info(`Planned ${totalTasks} leaf searches across ${searches.length} plan searches`);
+
+    // Discover: scrape each leaf search (tasks left by an interrupted run first)
+    let task: DiscoveryTask | null;
+    let failures = 0;
+    while ((task = await this.queue.peekDiscoveryTask())) {
+      try {
+        totalNewIds += await this.discoverProperties(task);
+        failures = 0;
+      } catch (error) {
+        if (error instanceof SchemaDriftError) {
+          // Retrying cannot help; fail the run so the next one starts fresh
+          await this.queue.saveSchemaDrift(schemaMonitor.getReports());
+          await this.queue.finishRun('failed');
+          throw error;
+        }
+
+        failures++;
+        logger.error(`Error discovering ${describeTask(task)} (attempt ${failures}):`, error);
+
+        if (failures >= MAX_TASK_FAILURES) {
+          // Keep checkpoints; the next coordinator run resumes from here
+          throw new Error(`Discovery aborted after ${failures} failures on ${describeTask(task)}`);
+        }
 
-    for (const [cityName, geocode] of Object.entries(GERMAN_CITIES)) {
-      totalCities++;
+        await this.randomDelay(5000, 10000);
+        continue;
+      }
 
-      for (const transactionType of transactionTypes) {
-        for (const propertyType of propertyTypes) {
-          const newCount = await this.discoverProperties(
-            cityName,
-            geocode,
-            transactionType,
-            propertyType
-          );
+      await this.queue.saveSchemaDrift(schemaMonitor.getReports());
 
-          totalNewIds += newCount;
+      // Rate limiting
+      await this.randomDelay(2000, 4000);
+    }
 
-          // Rate limiting
-          await this.randomDelay(2000, 4000);
+    await this.queue.completeDiscovery();
+
+    // Searches that failed to plan were not crawled; incremental searches
+    // cut off at the page limit missed listings and are crawled in full next
+    const crawledKeys: string[] = [];
+    const truncatedKeys: string[] = [];
+    for (const [searchName, keys] of searchKeys) {
+      let allCrawled = true;
+      for (const searchKey of keys) {
+        if (!await this.queue.isSearchPlanned(searchKey)) {
+          allCrawled = false;
+        } else if (await this.queue.isScopeTruncated(searchKey)) {
+          truncatedKeys.push(searchKey);
+          allCrawled = false;
+        } else {
+          crawledKeys.push(searchKey);
         }
       }
+
+      // Only fully crawled searches wait for their next crawl interval
+      if (allCrawled) {
+        await this.queue.markSearchCrawled(searchName);
+      } else {
+        logger.warn(`${searchName}: not all searches were crawled, keeping it due`);
+      }
     }
 
+    const totalRemoved = await this.detectDelistings(crawledKeys);
+
+    // The next incremental crawl starts where this run started
+    const runId = this.queue.getRunId();
+    const run = runId ? await this.queue.getRun(runId) : null;
+    await this.queue.markIncrementalCrawl(crawledKeys, run ? new Date(run.startedAt) : startedAt);
+    await this.queue.resetIncrementalCrawl(truncatedKeys);
+
     // Final stats
     const stats = await this.queue.getStats();
 
     logger.info('\n=== DISCOVERY COMPLETE ===');
-    logger.info(`Cities processed: ${totalCities}`);
+    logger.info(`Searches processed: ${searches.length}`);
+    logger.info(`Leaf searches: ${totalTasks}`);
     logger.info(`Total discovered: ${stats.totalDiscovered.toLocaleString()}`);
     logger.info(`New IDs queued: ${totalNewIds.toLocaleString()}`);
+    logger.info(`Removed listings: ${totalRemoved.toLocaleString()}`);
     logger.info(`Queue depth: ${stats.queueDepth.toLocaleString()}\n`);
   }
 
+  /**
+   * Check fully crawled searches for removed listings
+   *
+   * @returns Number of listings confirmed as removed
+   */
+  private async detectDelistings(searchKeys: string[]): Promise<number> {
+    if (!config.delisting.enabled) {
+      return 0;
+    }
+
+    const history = config.history.enabled
+      ? new ListingHistoryStore('immobilienscout24', config.history.maxEntries)
+      : undefined;
+    const detector = new DelistingDetector(this.queue, this.provider, config.delisting.maxMissingRatio, history);
+    let totalRemoved = 0;
+
+    try {
+      await detector.retryPendingDeactivations();
+    } catch (error) {
+      logger.error('Error retrying pending deactivations:', error);
+    }
+
+    for (const searchKey of searchKeys) {
+      if (await this.queue.isScopePartial(searchKey)) {
+        logger.info(`${searchKey}: not crawled in full, skipping delisting check`);
+        continue;
+      }
+
+      try {
+        const result = await detector.detect(searchKey);
+        totalRemoved += result.removed.length;
+      } catch (error) {
+        logger.error(`Error checking ${searchKey} for delistings:`, error);
+      }
+    }
+
+    await history?.close();
+    return totalRemoved;
+  }
+
   /**
    * Random delay for rate limiting
    */
@@ -137,15 +425,38 @@ export class ImmobilienScout24Coordinator {
 
   async close() {
     await this.queue.close();
+    await this.rateLimiters.mobile.close();
+    await this.rateLimiters.rest.close();
   }
 }
 
+/**
+ * Key of one plan search, transaction and property type
+ */
+function getSearchKey(searchName: string, transactionType: 'sale' | 'rent', propertyType: PropertyKind): string {
+  return `${searchName}|${transactionType}|${propertyType}`;
+}
+
 // Main execution
 async function main() {
   logger.info('Starting ImmobilienScout24 Coordinator');
 
-  const coordinator = new ImmobilienScout24Coordinator();
-  await coordinator.initialize();
+  const args = process.argv.slice(2);
+  const planIdx = args.indexOf('--plan');
+
+  let coordinator: ImmobilienScout24Coordinator;
+  try {
+    coordinator = new ImmobilienScout24Coordinator({
+      planPath: planIdx >= 0 ? args[planIdx + 1] : undefined,
+      force: args.includes('--force'),
+      restart: args.includes('--restart'),
+      incremental: args.includes('--incremental') || undefined
+    });
+    await coordinator.initialize();
+  } catch (error) {
+    logger.error('Coordinator failed to start:', error);
+    process.exit(1);
+  }
 
   // Graceful shutdown
   process.on('SIGINT', async () => {
@@ -161,7 +472,7 @@ async function main() {
   });
 
   try {
-    await coordinator.discoverAllCities();
+    await coordinator.discoverAll();
 
     // Show final stats
     const queue = new RedisQueue('immobilienscout24');
@@ -35,6 +35,16 @@ export interface BulkIngestionPayload {
   }>;
 }
 
+/**
+ * Deactivation payload for a listing removed from the portal
+ */
+export interface DeactivationPayload {
+  portal: string;
+  portal_id: string;
+  country: string;
+  removed_at: string;
+}
+
 /**
  * Core Service API Client
  */
@@ -124,6 +134,37 @@ export class CoreServiceClient {
     }
   }
 
+  /**
+   * Mark a property as no longer listed on the portal
+   */
+  async deactivateProperty(payload: DeactivationPayload): Promise<boolean> {
+    if (!this.enabled) {
+      logger.debug('Core Service integration disabled, skipping deactivation');
+      return false;
+    }
+
+    try {
+      const response = await this.client.post('/properties/deactivate', payload);
+
+      if (response.status === 202) {
+        logger.debug(`Property ${payload.portal_id} queued for deactivation`);
+        return true;
+      }
+
+      return false;
+    } catch (error) {
+      const axiosError = error as AxiosError;
+      logger.error(`Failed to deactivate property ${payload.portal_id}: ${axiosError.message}`);
+
+      if (axiosError.response) {
+        logger.error(`Response status: ${axiosError.response.status}`);
+        logger.error(`Response data: ${JSON.stringify(axiosError.response.data)}`);
+      }
+
+      return false;
+    }
+  }
+
   /**
    * Health check
    */
@@ -184,3 +225,20 @@ export async function sendBulkToCoreService(
 
   return coreServiceClient.ingestBulk(payload);
 }
+
+/**
+ * Report a removed property to Core Service (convenience function)
+ */
+export async function sendDeactivationToCoreService(
+  portalId: string,
+  removedAt: Date
+): Promise<boolean> {
+  const payload: DeactivationPayload = {
+    portal: config.portal,
+    portal_id: portalId,
+    country: config.country,
+    removed_at: removedAt.toISOString()
+  };
+
+  return coreServiceClient.deactivateProperty(payload);
+}
@@ -0,0 +1,149 @@
+/**
+ * Delisting Detector
+ *
+ * IS24 does not announce removed listings; they simply stop showing up in
+ * searches. After a full crawl of a search scope (plan search, transaction
+ * and property type), the IDs found are compared against the scope's last
+ * full crawl. A listing can also drop out of a search because it changed
+ * price band or type, so every missing ID is confirmed by requesting its
+ * expose: only a 404 marks it removed. Removals are recorded with their
+ * removedAt time, added to the listing's change history and reported to
+ * the Core Service as deactivations. Deactivations that fail to send stay
+ * pending and are retried on the next run (retryPendingDeactivations).
+ *
+ * Missing IDs that still resolve, or whose check fails, stay in the baseline
+ * and are checked again after the next full crawl.
+ */
+
+import { RedisQueue } from './redis-queue';
+import { ListingProvider } from './listing-provider';
+import { ListingHistoryStore } from './listing-history';
+import { coreServiceClient, sendDeactivationToCoreService } from './core-service-client';
+import { createLogger } from './logger';
+
+const logger = createLogger('DelistingDetector');
+
+/**
+ * Outcome of checking one search scope
+ */
+export interface DelistingResult {
+  scope: string;
+  checked: boolean;         // false for a first crawl or a skipped comparison
+  missing: number;          // IDs of the last full crawl not found again
+  removed: string[];        // Confirmed removed (expose 404)
+}
+
+export class DelistingDetector {
+  /**
+   * @param maxMissingRatio Largest share of the last full crawl that may be
+   *   missing before the new crawl is treated as broken and not compared
+   * @param history Change history to record removals in, if enabled
+   */
+  constructor(
+    private queue: RedisQueue,
+    private provider: ListingProvider,
+    private maxMissingRatio: number,
+    private history?: ListingHistoryStore
+  ) {}
+
+  /**
+   * Compare a fully crawled scope against its last full crawl and mark
+   * confirmed removals
+   */
+  async detect(scope: string): Promise<DelistingResult> {
+    const result: DelistingResult = { scope, checked: false, missing: 0, removed: [] };
+
+    const { missing, baselineCount } = await this.queue.getMissingScopeIds(scope);
+    if (baselineCount === null) {
+      logger.info(`${scope}: first full crawl, recording baseline`);
+      await this.queue.commitScopeIds(scope);
+      return result;
+    }
+
+    result.missing = missing.length;
+    if (baselineCount > 0 && missing.length / baselineCount > this.maxMissingRatio) {
+      logger.warn(
+        `${scope}: ${missing.length} of ${baselineCount} listings missing, ` +
+        'crawl looks incomplete, skipping delisting check'
+      );
+      await this.queue.commitScopeIds(scope, missing);
+      return result;
+    }
+
+    result.checked = true;
+    const stillListed: string[] = [];
+
+    for (const id of missing) {
+      try {
+        const property = await this.provider.getExpose(id.replace('is24-', ''));
+        if (property) {
+          stillListed.push(id);
+        } else {
+          result.removed.push(id);
+        }
+      } catch (error) {
+        logger.warn(`${scope}: could not check ${id}: ${(error as Error).message}`);
+        stillListed.push(id);
+      }
+    }
+
+    const removedAt = new Date();
+    await this.queue.markRemoved(result.removed, removedAt);
+    await this.history?.markRemoved(result.removed, removedAt);
+    await this.queue.commitScopeIds(scope, stillListed);
+
+    if (coreServiceClient.isEnabled()) {
+      await this.queue.addPendingDeactivations(result.removed, removedAt);
+      await this.sendDeactivations(result.removed.map(id => ({ id, removedAt })));
+    }
+
+    logger.info(
+      `${scope}: ${missing.length} missing, ${result.removed.length} removed, ` +
+      `${stillListed.length} still listed`
+    );
+
+    return result;
+  }
+
+  /**
+   * Resend deactivations that failed in earlier runs
+   *
+   * @returns Number of deactivations still pending
+   */
+  async retryPendingDeactivations(): Promise<number> {
+    if (!coreServiceClient.isEnabled()) {
+      return 0;
+    }
+
+    const pending = await this.queue.getPendingDeactivations();
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    logger.info(`Retrying ${pending.length} pending deactivations`);
+    const failed = await this.sendDeactivations(pending);
+    if (failed > 0) {
+      logger.warn(`${failed} deactivations still pending`);
+    }
+    return failed;
+  }
+
+  /**
+   * Send deactivations, clearing the pending entries of those that were
+   * accepted
+   *
+   * @returns Number of deactivations that failed
+   */
+  private async sendDeactivations(removals: Array<{ id: string; removedAt: Date }>): Promise<number> {
+    const sent: string[] = [];
+
+    for (const { id, removedAt } of removals) {
+      if (await sendDeactivationToCoreService(id.replace('is24-', ''), removedAt)) {
+        sent.push(id);
+      }
+    }
+
+    await this.queue.clearPendingDeactivations(sent);
+    return removals.length - sent.length;
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Energy Certificate (Energieausweis)
+ *
+ * The GEG requires sale and rental listings to state the key values of the
+ * building's energy certificate: its type (Verbrauchsausweis, based on
+ * measured consumption, or Bedarfsausweis, based on calculated demand), the
+ * final energy value in kWh/(m²·a), the primary energy carrier, the year of
+ * issue and the efficiency class. Consumption values may or may not include
+ * hot water. Listings carry these as Property.energyCertificate.
+ *
+ * Older certificates (before May 2014) have no efficiency class; for
+ * residential buildings it is derived from the energy value using the GEG
+ * class limits and flagged as derived. Consumption values without hot water
+ * are classified with the GEG flat rate for hot water added. Non-residential
+ * certificates have no A+ to H scale.
+ *
+ * The values travel to the Core Service in country_specific (energieausweis,
+ * energieausweis_typ, energiekennwert, energietraeger, energieausweis_jahr,
+ * warmwasser_enthalten, energieausweis_klasse_berechnet).
+ */
+
+import { EnergyCertificate } from './shared-types';
+import { EnergyClass } from './api-types';
+import { parseYesNo, positiveNumber, valueAt } from './rent-costs';
+import { PropertyKind, isPropertyKind, isResidentialKind } from './real-estate-types';
+
+/**
+ * Upper limits of the efficiency classes in kWh/(m²·a) (GEG, Anlage 10);
+ * values from 250 are class H
+ */
+const CLASS_LIMITS: Array<[number, EnergyClass]> = [
+  [30, EnergyClass.A_PLUS],
+  [50, EnergyClass.A],
+  [75, EnergyClass.B],
+  [100, EnergyClass.C],
+  [130, EnergyClass.D],
+  [160, EnergyClass.E],
+  [200, EnergyClass.F],
+  [250, EnergyClass.G]
+];
+
+// Added to consumption values without hot water before classifying (GEG)
+const HOT_WATER_FLAT_RATE = 20;
+
+const ENERGY_CLASSES = Object.values(EnergyClass) as string[];
+
+const CERTIFICATE_TYPES: Record<string, EnergyCertificate['type']> = {
+  ENERGY_CONSUMPTION: 'consumption',
+  ENERGY_REQUIRED: 'demand'
+};
+
+/**
+ * Energy certificate of a realEstate object (REST API and mobile exposes)
+ * or a mobile search result item, which only carries the class
+ */
+export function extractEnergyCertificate(
+  realEstate: unknown,
+  kind: PropertyKind | 'property'
+): EnergyCertificate | undefined {
+  const ratingType = valueAt(realEstate, 'buildingEnergyRatingType');
+  const certificate: EnergyCertificate = {
+    type: typeof ratingType === 'string' ? CERTIFICATE_TYPES[ratingType.toUpperCase()] : undefined,
+    energyValue: positiveNumber(valueAt(realEstate, 'thermalCharacteristic')),
+    energyCarrier: parseEnergyCarrier(valueAt(realEstate, 'energySourcesEnev2014', 'energySourceEnev2014')),
+    issueYear: parseIssueYear(valueAt(realEstate, 'energyCertificate', 'energyCertificateCreationDate')),
+    energyClass: normalizeEnergyClass(
+      valueAt(realEstate, 'energyCertificate', 'energyEfficiencyClass') ?? valueAt(realEstate, 'energyEfficiencyClass')
+    )
+  };
+
+  // Hot water only matters for consumption values
+  if (certificate.type === 'consumption') {
+    certificate.hotWaterIncluded = parseYesNo(valueAt(realEstate, 'energyConsumptionContainsWarmWater'));
+  }
+
+  const residential = isPropertyKind(kind) && isResidentialKind(kind);
+  if (!certificate.energyClass && certificate.energyValue !== undefined && residential) {
+    const hotWater = certificate.hotWaterIncluded === false ? HOT_WATER_FLAT_RATE : 0;
+    certificate.energyClass = energyClassFromValue(certificate.energyValue + hotWater);
+    certificate.energyClassDerived = true;
+  }
+
+  for (const key of Object.keys(certificate) as Array<keyof EnergyCertificate>) {
+    if (certificate[key] === undefined) delete certificate[key];
+  }
+  return Object.keys(certificate).length > 0 ? certificate : undefined;
+}
+
+/**
+ * Efficiency class of an energy value in kWh/(m²·a)
+ */
+export function energyClassFromValue(energyValue: number): EnergyClass {
+  const limit = CLASS_LIMITS.find(([max]) => energyValue < max);
+  return limit ? limit[1] : EnergyClass.H;
+}
+
+/**
+ * Normalize an efficiency class ("A_PLUS", "a+", "B") to A+ to H
+ */
+export function normalizeEnergyClass(value: unknown): EnergyClass | undefined {
+  if (typeof value !== 'string') return undefined;
+  const energyClass = value.trim().toUpperCase().replace(/[_\s-]?PLUS$/, '+');
+  return ENERGY_CLASSES.includes(energyClass) ? energyClass as EnergyClass : undefined;
+}
+
+/**
+ * Germany-specific energy certificate fields for a listing's country_specific
+ */
+export function buildEnergyFields(certificate: EnergyCertificate): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+
+  if (certificate.energyClass !== undefined) fields.energieausweis = certificate.energyClass;
+  if (certificate.type) fields.energieausweis_typ = certificate.type === 'consumption' ? 'verbrauchsausweis' : 'bedarfsausweis';
+  if (certificate.energyValue !== undefined) fields.energiekennwert = certificate.energyValue;
+  if (certificate.energyCarrier !== undefined) fields.energietraeger = certificate.energyCarrier;
+  if (certificate.issueYear !== undefined) fields.energieausweis_jahr = certificate.issueYear;
+  if (certificate.hotWaterIncluded !== undefined) fields.warmwasser_enthalten = certificate.hotWaterIncluded;
+  if (certificate.energyClassDerived) fields.energieausweis_klasse_berechnet = true;
+
+  return fields;
+}
+
+/**
+ * Primary energy carrier, the first one listed ("DISTRICT_HEATING" ->
+ * "district-heating")
+ */
+function parseEnergyCarrier(sources: unknown): string | undefined {
+  const primary = Array.isArray(sources) ? sources[0] : sources;
+  if (typeof primary !== 'string' || !primary || primary.toUpperCase() === 'NO_INFORMATION') {
+    return undefined;
+  }
+  return primary.toLowerCase().replace(/_/g, '-');
+}
+
+/**
+ * Year of issue from a creation date ("2019-05-01", "2019"); the
+ * BEFORE/FROM_01_MAY_2014 markers only give the certificate's era
+ */
+function parseIssueYear(creationDate: unknown): number | undefined {
+  if (typeof creationDate !== 'string' || /MAY_2014$/i.test(creationDate)) return undefined;
+  const match = creationDate.match(/\b(19|20)\d{2}\b/);
+  return match ? parseInt(match[0], 10) : undefined;
+}
@@ -0,0 +1,115 @@
+/**
+ * Error classification for listing processing
+ *
+ * Maps failures from the IS24 APIs and the Core Service to a small set of
+ * categories, so the dead-letter store can tell a permanently delisted
+ * expose (404) apart from a transient failure.
+ */
+
+import { AxiosError } from 'axios';
+
+/**
+ * Failure categories
+ */
+export type FailureCategory =
+  | 'gone'            // HTTP 404 - expose no longer exists
+  | 'rate_limited'    // HTTP 429 - too many requests
+  | 'http_error'      // Any other HTTP error status
+  | 'network'         // No response (timeout, connection reset, DNS)
+  | 'parse_error'     // Response could not be parsed into a Property
+  | 'core_rejected'   // Core Service did not accept the listing
+  | 'unknown';
+
+export const FAILURE_CATEGORIES: FailureCategory[] = [
+  'gone',
+  'rate_limited',
+  'http_error',
+  'network',
+  'parse_error',
+  'core_rejected',
+  'unknown'
+];
+
+/**
+ * Classified failure details
+ */
+export interface FailureInfo {
+  category: FailureCategory;
+  message: string;
+  statusCode?: number;
+  responseSnippet?: string;
+}
+
+// Maximum length of response bodies kept for inspection
+const SNIPPET_LENGTH = 500;
+
+/**
+ * Error raised while processing a listing, carrying its category
+ */
+export class ListingProcessingError extends Error {
+  constructor(
+    public readonly category: FailureCategory,
+    message: string,
+    public readonly statusCode?: number,
+    public readonly responseSnippet?: string
+  ) {
+    super(message);
+    this.name = 'ListingProcessingError';
+  }
+}
+
+/**
+ * Check whether a failure category is worth retrying
+ */
+export function isRetryable(category: FailureCategory): boolean {
+  return category !== 'gone';
+}
+
+/**
+ * Classify any thrown value into FailureInfo
+ */
+export function classifyError(error: unknown): FailureInfo {
+  if (error instanceof ListingProcessingError) {
+    return {
+      category: error.category,
+      message: error.message,
+      statusCode: error.statusCode,
+      responseSnippet: error.responseSnippet
+    };
+  }
+
+  const axiosError = error as AxiosError;
+  if (axiosError?.isAxiosError) {
+    const status = axiosError.response?.status;
+    const info: FailureInfo = {
+      category: 'network',
+      message: axiosError.message,
+      statusCode: status,
+      responseSnippet: toSnippet(axiosError.response?.data)
+    };
+
+    if (status === 404) info.category = 'gone';
+    else if (status === 429) info.category = 'rate_limited';
+    else if (status) info.category = 'http_error';
+
+    return info;
+  }
+
+  if (error instanceof SyntaxError) {
+    return { category: 'parse_error', message: error.message };
+  }
+
+  return {
+    category: 'unknown',
+    message: error instanceof Error ? error.message : String(error)
+  };
+}
+
+/**
+ * Truncate a response body for storage
+ */
+export function toSnippet(data: unknown): string | undefined {
+  if (data === undefined || data === null || data === '') return undefined;
+  const text = typeof data === 'string' ? data : JSON.stringify(data);
+  return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}...` : text;
+}
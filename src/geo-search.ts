@@ -0,0 +1,201 @@
+/**
+ * Geographic Search Areas
+ *
+ * Radius (lat, lon, km) and polygon (shape) search areas for catchment areas
+ * that do not follow administrative borders. Both IS24 APIs take a radius as
+ * `geocoordinates=lat;lon;radius` and a polygon as a `shape` parameter holding
+ * the outline as an encoded polyline (Google polyline algorithm, lat/lon
+ * order, precision 5).
+ *
+ * Polygons are read from GeoJSON (Polygon, MultiPolygon, Feature or
+ * FeatureCollection); only the outer ring of the first polygon is used.
+ */
+
+import * as fs from 'fs';
+
+export interface RadiusArea {
+  type: 'radius';
+  lat: number;
+  lon: number;
+  radiusKm: number;
+}
+
+export interface ShapeArea {
+  type: 'shape';
+  polygon: [number, number][];   // [lat, lon] points, closed or open ring
+}
+
+export type GeoArea = RadiusArea | ShapeArea;
+
+/**
+ * Search parameters selecting a location (shared by both clients)
+ */
+export interface LocationParams {
+  searchType?: 'region' | 'radius' | 'shape';
+  geocodes?: string;
+  geocoordinates?: string;
+  shape?: string;
+}
+
+/**
+ * Build location parameters for a geocode or an area
+ */
+export function buildLocationParams(location?: string | GeoArea): LocationParams {
+  if (!location) {
+    return {};
+  }
+
+  if (typeof location === 'string') {
+    return { searchType: 'region', geocodes: location };
+  }
+
+  if (location.type === 'radius') {
+    return {
+      searchType: 'radius',
+      geocoordinates: `${location.lat};${location.lon};${location.radiusKm}`
+    };
+  }
+
+  return { searchType: 'shape', shape: encodePolyline(location.polygon) };
+}
+
+/**
+ * Create a radius area, validating coordinates
+ */
+export function createRadiusArea(lat: number, lon: number, radiusKm: number): RadiusArea {
+  if (!Number.isFinite(lat) || lat < -90 || lat > 90) {
+    throw new Error(`Invalid latitude: ${lat}`);
+  }
+  if (!Number.isFinite(lon) || lon < -180 || lon > 180) {
+    throw new Error(`Invalid longitude: ${lon}`);
+  }
+  if (!Number.isFinite(radiusKm) || radiusKm <= 0) {
+    throw new Error(`Invalid radius: ${radiusKm}`);
+  }
+  return { type: 'radius', lat, lon, radiusKm };
+}
+
+/**
+ * Parse a "lat,lon" string (as passed to --near)
+ */
+export function parseNear(value: string, radiusKm: number): RadiusArea {
+  const [lat, lon] = value.split(',').map(part => parseFloat(part.trim()));
+  return createRadiusArea(lat, lon, radiusKm);
+}
+
+/**
+ * Extract the outer ring of the first polygon in a GeoJSON object
+ */
+export function parseGeoJsonShape(geojson: unknown): ShapeArea {
+  const ring = outerRing(findPolygon(geojson));
+
+  if (!ring || ring.length < 3) {
+    throw new Error('GeoJSON contains no polygon with at least 3 points');
+  }
+
+  // GeoJSON positions are [lon, lat]
+  return {
+    type: 'shape',
+    polygon: ring.map(([lon, lat]) => [lat, lon] as [number, number])
+  };
+}
+
+/**
+ * First Polygon or MultiPolygon geometry of a GeoJSON object (a geometry,
+ * Feature or FeatureCollection)
+ */
+function findPolygon(value: unknown): Record<string, unknown> | undefined {
+  if (!isObject(value)) return undefined;
+
+  switch (value.type) {
+    case 'Polygon':
+    case 'MultiPolygon':
+      return value;
+    case 'Feature':
+      return findPolygon(value.geometry);
+    case 'FeatureCollection':
+      if (!Array.isArray(value.features)) return undefined;
+      for (const feature of value.features) {
+        const polygon = isObject(feature) ? findPolygon(feature.geometry) : undefined;
+        if (polygon) return polygon;
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Outer ring of a polygon geometry (of the first polygon of a MultiPolygon)
+ */
+function outerRing(geometry?: Record<string, unknown>): [number, number][] | undefined {
+  if (!geometry || !Array.isArray(geometry.coordinates)) return undefined;
+
+  const polygon: unknown = geometry.type === 'MultiPolygon' ? geometry.coordinates[0] : geometry.coordinates;
+  const ring: unknown = Array.isArray(polygon) ? polygon[0] : undefined;
+  return Array.isArray(ring) && ring.every(isPosition) ? ring : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPosition(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length >= 2 &&
+    typeof value[0] === 'number' && typeof value[1] === 'number';
+}
+
+/**
+ * Load a polygon area from a GeoJSON file
+ */
+export function loadGeoJsonShape(filePath: string): ShapeArea {
+  return parseGeoJsonShape(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+}
+
+/**
+ * Encode [lat, lon] points with the Google polyline algorithm
+ */
+export function encodePolyline(points: [number, number][]): string {
+  let result = '';
+  let prevLat = 0;
+  let prevLon = 0;
+
+  for (const [lat, lon] of points) {
+    const latE5 = Math.round(lat * 1e5);
+    const lonE5 = Math.round(lon * 1e5);
+    result += encodeSigned(latE5 - prevLat) + encodeSigned(lonE5 - prevLon);
+    prevLat = latE5;
+    prevLon = lonE5;
+  }
+
+  return result;
+}
+
+function encodeSigned(value: number): string {
+  let shifted = value < 0 ? ~(value << 1) : value << 1;
+  let result = '';
+
+  while (shifted >= 0x20) {
+    result += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+    shifted >>= 5;
+  }
+
+  return result + String.fromCharCode(shifted + 63);
+}
+
+/**
+ * Human-readable description of an area
+ */
+export function describeArea(area: GeoArea): string {
+  if (area.type === 'radius') {
+    return `${area.radiusKm}km around ${area.lat},${area.lon}`;
+  }
+  return `polygon (${area.polygon.length} points)`;
+}
+
+/**
+ * Human-readable description of a geocode or area
+ */
+export function describeLocation(location: string | GeoArea): string {
+  return typeof location === 'string' ? location : describeArea(location);
+}
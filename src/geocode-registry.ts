@@ -0,0 +1,384 @@
+/**
+ * Geocode Registry
+ *
+ * Offline registry of German regions and their IS24 geocodes. Every
+ * Bundesland, Landkreis and municipality comes from data/regions.json
+ * (official AGS keys and the postcodes of each municipality, Gebietsstand
+ * 2019, sources in the file); data/geocodes.json adds the IS24 geocode in
+ * both formats, the 10-digit mobile API geocode and the 13-digit REST API
+ * geocode, keyed by AGS.
+ *
+ * Every region resolves by name, alias, PLZ or 8-digit AGS, but only regions
+ * with an entry in data/geocodes.json can be searched. Geocode entries are
+ * checked against the live APIs with `npm run verify-geocodes`.
+ *
+ * Names are matched case- and umlaut-insensitively ("muenchen" = "München"),
+ * with and without qualifiers ("Ascheberg" matches both "Ascheberg" and
+ * "Ascheberg (Holstein)") and against district aliases ("Landkreis
+ * München"). When a name fits several types of region, municipalities win
+ * over districts and districts over states, so "München" is the city and
+ * "Landkreis München" the district; kreisfreie Städte are municipalities
+ * only. Aliases in data/geocodes.json ("Munich", "Frankfurt") pick a region
+ * outright.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GeocodeInfo } from './api-types';
+import { createLogger } from './logger';
+
+const logger = createLogger('GeocodeRegistry');
+
+export type GeocodeType = 'state' | 'district' | 'city';
+
+/**
+ * Registry entry
+ */
+export interface GeocodeEntry extends Omit<GeocodeInfo, 'geocode'> {
+  type: GeocodeType;
+  ags: string;                           // Amtlicher Gemeindeschlüssel (2, 5 or 8 digits)
+  geocode?: string;                      // Mobile API format (10 digits)
+  restGeocode?: string;                  // REST API format (13 digits)
+  region?: string;                       // Bundesland
+  district?: string;                     // Landkreis (unset for kreisfreie Städte)
+  aliases?: string[];
+  postcodes?: string[];
+  verified?: boolean;                    // Checked against the API
+}
+
+/**
+ * Registry entry with known geocodes
+ */
+export type GeocodedEntry = GeocodeEntry & { geocode: string; restGeocode: string };
+
+/**
+ * IS24 geocodes of one region (data/geocodes.json)
+ */
+export interface GeocodeRecord {
+  ags: string;
+  geocode: string;
+  restGeocode: string;
+  aliases?: string[];
+  verified?: boolean;
+  listingCount?: number;
+}
+
+/**
+ * Administrative regions (data/regions.json)
+ */
+export interface RegionData {
+  version: number;
+  source?: string;
+  states: { ags: string; name: string }[];
+  districts: { ags: string; name: string; type: string }[];
+  municipalities: { ags: string; name: string; postcodes?: string[] }[];
+}
+
+interface GeocodeFile {
+  version: number;
+  entries: GeocodeRecord[];
+}
+
+export const DEFAULT_REGION_FILE = path.resolve(process.env.REGION_FILE || 'data/regions.json');
+export const DEFAULT_GEOCODE_FILE = path.resolve(process.env.GEOCODE_FILE || 'data/geocodes.json');
+
+const MOBILE_GEOCODE_PATTERN = /^1276\d{6}$/;
+const REST_GEOCODE_PATTERN = /^1276\d{9}$/;
+const POSTCODE_PATTERN = /^\d{5}$/;
+const MUNICIPALITY_AGS_PATTERN = /^\d{8}$/;
+
+// REST geocodes are the mobile geocode with this suffix
+const REST_SUFFIX = '046';
+
+// District types that also go by "Landkreis X" and "Kreis X"
+const COUNTY_TYPES = ['Landkreis', 'Kreis'];
+
+// Most specific first
+const TYPE_ORDER: GeocodeType[] = ['city', 'district', 'state'];
+
+/**
+ * Convert a geocode to the mobile API format
+ */
+export function toMobileGeocode(geocode: string): string {
+  return REST_GEOCODE_PATTERN.test(geocode) ? geocode.slice(0, 10) : geocode;
+}
+
+/**
+ * Convert a geocode to the REST API format
+ */
+export function toRestGeocode(geocode: string): string {
+  return MOBILE_GEOCODE_PATTERN.test(geocode) ? `${geocode}${REST_SUFFIX}` : geocode;
+}
+
+/**
+ * Check whether a string looks like an IS24 geocode (either format)
+ */
+export function isGeocode(value: string): boolean {
+  return MOBILE_GEOCODE_PATTERN.test(value) || REST_GEOCODE_PATTERN.test(value);
+}
+
+/**
+ * Check whether an entry has geocodes to search with
+ */
+export function hasGeocode(entry: GeocodeEntry): entry is GeocodedEntry {
+  return entry.geocode !== undefined && entry.restGeocode !== undefined;
+}
+
+/**
+ * Describe an entry for logs ("Neuenkirchen (Diepholz, Niedersachsen)")
+ */
+export function describeGeocodeEntry(entry: GeocodeEntry): string {
+  if (entry.type === 'state') {
+    return `${entry.name} (state)`;
+  }
+  if (entry.type === 'district') {
+    return `${entry.name} (district, ${entry.region})`;
+  }
+  return `${entry.name} (${entry.district ? `${entry.district}, ` : ''}${entry.region})`;
+}
+
+/**
+ * Normalize a place name for matching
+ */
+export function normalizePlaceName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Strip the qualifiers official names use to tell places apart
+ * ("Ascheberg (Holstein)", "Rade b. Rendsburg", "Weiden i.d.OPf.",
+ * "Schwarzenberg/Erzgeb.", "Frankfurt am Main")
+ */
+function stripQualifiers(name: string): string {
+  return name
+    .replace(/\s*\(.*?\)/g, '')
+    .replace(/\/.*$/, '')
+    .replace(/\s+(b\.?|bei)\s.*$/, '')
+    .replace(/\s+[a-zäöü]{1,3}\.\S*$/, '')
+    .replace(/\s+(am|an der|im|in|in der|ob der|vor der)\s.*$/, '')
+    .trim();
+}
+
+/**
+ * Names a district also goes by ("Landkreis München", "Kreis München")
+ */
+function districtAliases(name: string, type: string): string[] | undefined {
+  if (COUNTY_TYPES.includes(type)) {
+    return COUNTY_TYPES.map(countyType => `${countyType} ${name}`);
+  }
+  return name.startsWith(type) ? undefined : [`${type} ${name}`];
+}
+
+/**
+ * Keep the entries of the most specific type
+ */
+function mostSpecific(entries: GeocodeEntry[]): GeocodeEntry[] {
+  for (const type of TYPE_ORDER) {
+    const matches = entries.filter(entry => entry.type === type);
+    if (matches.length > 0) {
+      return matches;
+    }
+  }
+  return [];
+}
+
+function addTo<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const values = map.get(key);
+  if (!values) {
+    map.set(key, [value]);
+  } else if (!values.includes(value)) {
+    values.push(value);
+  }
+}
+
+export class GeocodeRegistry {
+  private entries: GeocodeEntry[] = [];
+  private byAgs = new Map<string, GeocodeEntry>();
+  private byGeocode = new Map<string, GeocodedEntry>();
+  private byName = new Map<string, GeocodeEntry[]>();
+  private byAlias = new Map<string, GeocodeEntry>();
+  private byShortName = new Map<string, GeocodeEntry[]>();
+  private byPostcode = new Map<string, GeocodeEntry[]>();
+
+  constructor(regions: RegionData, private records: GeocodeRecord[] = []) {
+    const stateNames = new Map(regions.states.map(state => [state.ags, state.name]));
+    const districtNames = new Map<string, string>();
+
+    for (const state of regions.states) {
+      this.add({ name: state.name, type: 'state', ags: state.ags, region: state.name });
+    }
+
+    for (const district of regions.districts) {
+      if (district.type === 'Kreisfreie Stadt') {
+        continue;
+      }
+      districtNames.set(district.ags, district.name);
+      this.add({
+        name: district.name,
+        type: 'district',
+        ags: district.ags,
+        region: stateNames.get(district.ags.slice(0, 2)),
+        aliases: districtAliases(district.name, district.type)
+      });
+    }
+
+    for (const municipality of regions.municipalities) {
+      this.add({
+        name: municipality.name,
+        type: 'city',
+        ags: municipality.ags,
+        region: stateNames.get(municipality.ags.slice(0, 2)),
+        district: districtNames.get(municipality.ags.slice(0, 5)),
+        postcodes: municipality.postcodes
+      });
+    }
+
+    for (const record of records) {
+      const entry = this.byAgs.get(record.ags);
+      if (!entry) {
+        throw new Error(`Geocode ${record.geocode} refers to unknown AGS ${record.ags}`);
+      }
+
+      Object.assign(entry, {
+        geocode: record.geocode,
+        restGeocode: record.restGeocode,
+        verified: record.verified,
+        listingCount: record.listingCount,
+        aliases: [...(entry.aliases || []), ...(record.aliases || [])]
+      });
+      this.byGeocode.set(record.geocode, entry as GeocodedEntry);
+      for (const alias of record.aliases || []) {
+        this.byAlias.set(normalizePlaceName(alias), entry);
+      }
+    }
+  }
+
+  /**
+   * Load a registry from the region and geocode data files
+   */
+  static load(
+    regionFile: string = DEFAULT_REGION_FILE,
+    geocodeFile: string = DEFAULT_GEOCODE_FILE
+  ): GeocodeRegistry {
+    const regions = JSON.parse(fs.readFileSync(regionFile, 'utf-8')) as RegionData;
+    const geocodes = JSON.parse(fs.readFileSync(geocodeFile, 'utf-8')) as GeocodeFile;
+    logger.debug(
+      `Loaded ${regions.municipalities.length} municipalities from ${regionFile}, ` +
+      `${geocodes.entries.length} geocodes from ${geocodeFile}`
+    );
+    return new GeocodeRegistry(regions, geocodes.entries);
+  }
+
+  private add(entry: GeocodeEntry): void {
+    this.entries.push(entry);
+    this.byAgs.set(entry.ags, entry);
+
+    for (const name of [entry.name, ...(entry.aliases || [])]) {
+      addTo(this.byName, normalizePlaceName(name), entry);
+      addTo(this.byShortName, normalizePlaceName(stripQualifiers(name)), entry);
+    }
+
+    for (const postcode of entry.postcodes || []) {
+      addTo(this.byPostcode, postcode, entry);
+    }
+  }
+
+  /**
+   * Get all entries
+   */
+  getEntries(): GeocodeEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Get the entries with geocodes
+   */
+  getGeocodedEntries(): GeocodedEntry[] {
+    return this.entries.filter(hasGeocode);
+  }
+
+  /**
+   * Find an entry by geocode (either format)
+   */
+  findByGeocode(geocode: string): GeocodedEntry | undefined {
+    return this.byGeocode.get(toMobileGeocode(geocode));
+  }
+
+  /**
+   * Find an entry by AGS
+   */
+  findByAgs(ags: string): GeocodeEntry | undefined {
+    return this.byAgs.get(ags);
+  }
+
+  /**
+   * Resolve a query (name or alias, PLZ, 8-digit AGS or geocode) to entries
+   *
+   * A PLZ resolves to every municipality it covers; a name fitting several
+   * municipalities resolves to all of them.
+   */
+  resolve(query: string): GeocodeEntry[] {
+    const value = query.trim();
+
+    if (isGeocode(value)) {
+      const entry = this.findByGeocode(value);
+      return entry ? [entry] : [];
+    }
+
+    if (POSTCODE_PATTERN.test(value)) {
+      return this.byPostcode.get(value) || [];
+    }
+
+    if (MUNICIPALITY_AGS_PATTERN.test(value)) {
+      const entry = this.byAgs.get(value);
+      return entry ? [entry] : [];
+    }
+
+    const key = normalizePlaceName(value);
+    const alias = this.byAlias.get(key);
+    if (alias) {
+      return [alias];
+    }
+
+    const matches = [...(this.byName.get(key) || []), ...(this.byShortName.get(key) || [])];
+    return mostSpecific([...new Set(matches)]);
+  }
+
+  /**
+   * Resolve a query to a single entry (undefined when unknown or ambiguous)
+   */
+  resolveOne(query: string): GeocodeEntry | undefined {
+    const entries = this.resolve(query);
+    return entries.length === 1 ? entries[0] : undefined;
+  }
+
+  /**
+   * Write the geocodes, with verification results, back to a data file
+   */
+  save(filePath: string = DEFAULT_GEOCODE_FILE): void {
+    const entries = this.records.map(record => {
+      const entry = this.byAgs.get(record.ags)!;
+      return { ...record, verified: entry.verified, listingCount: entry.listingCount };
+    });
+    const lines = entries.map(entry => `    ${JSON.stringify(entry)}`);
+    fs.writeFileSync(filePath, `{\n  "version": 2,\n  "entries": [\n${lines.join(',\n')}\n  ]\n}\n`);
+  }
+}
+
+let defaultRegistry: GeocodeRegistry | undefined;
+
+/**
+ * Get the registry loaded from the bundled data files
+ */
+export function getGeocodeRegistry(): GeocodeRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = GeocodeRegistry.load();
+  }
+  return defaultRegistry;
+}
@@ -1,6 +1,10 @@
 #!/usr/bin/env node
 
 import { ImmobilienScout24Scraper, IS24ScraperOptions, GEOCODES } from './scraper';
+import { describeGeocodeEntry, getGeocodeRegistry, hasGeocode, toMobileGeocode } from './geocode-registry';
+import { parseNear, loadGeoJsonShape, describeArea } from './geo-search';
+import { PROPERTY_KINDS, PropertyKind, isPropertyKind } from './real-estate-types';
+import { loadKnownIds } from './incremental';
 import { Property, ScraperResult } from './shared-types';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -10,9 +14,12 @@ const logger = createLogger('module');
 
 interface CliOptions {
   transactionType?: 'sale' | 'rent' | 'all';
-  propertyType?: 'apartment' | 'house' | 'all';
+  propertyType?: PropertyKind | 'all';
   city?: string;
   geocode?: string;
+  near?: string;
+  radius?: number;
+  shape?: string;
   priceMin?: number;
   priceMax?: number;
   sqmMin?: number;
@@ -24,6 +31,8 @@ interface CliOptions {
   output?: string;
   format?: 'json' | 'csv';
   verbose?: boolean;
+  since?: Date;
+  known?: string;
 }
 
 function parseArgs(): CliOptions {
@@ -40,16 +49,29 @@ function parseArgs(): CliOptions {
         break;
       case '-p':
       case '--property-type':
-        options.propertyType = args[++i] as 'apartment' | 'house' | 'all';
+        options.propertyType = args[++i] as PropertyKind | 'all';
+        if (options.propertyType !== 'all' && !isPropertyKind(options.propertyType)) {
+          logger.error(`Unknown property type: ${options.propertyType} (${PROPERTY_KINDS.join(', ')}, all)`);
+          process.exit(1);
+        }
         break;
       case '-c':
       case '--city':
-        options.city = args[++i]?.toUpperCase();
+        options.city = args[++i];
         break;
       case '-g':
       case '--geocode':
         options.geocode = args[++i];
         break;
+      case '--near':
+        options.near = args[++i];
+        break;
+      case '--radius':
+        options.radius = parseFloat(args[++i]);
+        break;
+      case '--shape':
+        options.shape = args[++i];
+        break;
       case '--price-min':
         options.priceMin = parseInt(args[++i], 10);
         break;
@@ -88,6 +110,16 @@ function parseArgs(): CliOptions {
       case '--verbose':
         options.verbose = true;
         break;
+      case '--since':
+        options.since = new Date(args[++i]);
+        if (isNaN(options.since.getTime())) {
+          logger.error(`Invalid date for --since: ${args[i]}`);
+          process.exit(1);
+        }
+        break;
+      case '--known':
+        options.known = args[++i];
+        break;
       case '-h':
       case '--help':
         printHelp();
@@ -106,13 +138,20 @@ Usage: npx ts-node src/index.ts [options]
 
 Options:
   -t, --transaction <type>    Transaction type: sale, rent, or all (default: all)
-  -p, --property-type <type>  Property type: apartment, house, or all (default: all)
-  -c, --city <name>           City preset (currently only BERLIN verified)
-  -g, --geocode <id>          Custom geocode ID for region search
+  -p, --property-type <type>  Property type: apartment, house, land, garage, office,
+                              retail, gastronomy, industrial, investment, short_term,
+                              flat_share, new_build, or all (default: apartment and house)
+  -c, --city <place>          Municipality, Landkreis or Bundesland name, PLZ or AGS
+                              (searchable once its geocode is in data/geocodes.json)
+  -g, --geocode <id>          Custom geocode ID for region search (10 or 13 digits)
+  --near <lat,lon>            Radius search around a point
+  --radius <km>               Radius for --near in km (default: 5)
+  --shape <file.geojson>      Polygon search within a GeoJSON polygon
   --price-min <amount>        Minimum price in EUR
   --price-max <amount>        Maximum price in EUR
-  --sqm-min <sqm>             Minimum living space in sqm
-  --sqm-max <sqm>             Maximum living space in sqm
+  --sqm-min <sqm>             Minimum size in sqm (living space, plot area for land,
+                              floor space for commercial types)
+  --sqm-max <sqm>             Maximum size in sqm
   --rooms-min <n>             Minimum number of rooms
   --rooms-max <n>             Maximum number of rooms
   -m, --max-pages <n>         Maximum pages to scrape per category (default: 5)
@@ -120,6 +159,9 @@ Options:
   -o, --output <file>         Output file path (default: stdout)
   -f, --format <format>       Output format: json or csv (default: json)
   -v, --verbose               Enable verbose logging
+  --since <date>              Only listings published since date (newest first)
+  --known <file.json>         Stop paging at listings in a previous JSON output
+                              (no effect until the mobile sort order is verified)
   -h, --help                  Show this help message
 
 Examples:
@@ -129,12 +171,28 @@ Examples:
   # Scrape rentals in Berlin
   npx ts-node src/index.ts -t rent -c BERLIN -m 3
 
+  # Scrape plots over 500 sqm and office space for rent
+  npx ts-node src/index.ts -t sale -p land -c BERLIN --sqm-min 500
+  npx ts-node src/index.ts -t rent -p office -c BERLIN
+
   # Scrape with price filter
   npx ts-node src/index.ts -t sale -c BERLIN --price-min 100000 --price-max 500000
 
+  # Scrape rentals by PLZ
+  npx ts-node src/index.ts -t rent -c 80331 -l 20
+
+  # Scrape rentals within 5 km of Alexanderplatz
+  npx ts-node src/index.ts -t rent --near 52.52,13.41 --radius 5
+
+  # Scrape within a catchment area
+  npx ts-node src/index.ts -t sale --shape area.geojson
+
   # Scrape with custom geocode
   npx ts-node src/index.ts -t sale -g 1276003001 -l 20
 
+  # Only listings new since yesterday's run
+  npx ts-node src/index.ts -t rent -c BERLIN --since 2024-01-15T06:00 --known yesterday.json
+
   # Scrape and save to file
   npx ts-node src/index.ts -t sale -c BERLIN -o results.json
 
@@ -142,11 +200,13 @@ API Info:
   This scraper uses the ImmobilienScout24 mobile API.
   Base URL: https://api.mobile.immobilienscout24.de
   Endpoints: /search/total, /search/list (POST), /expose/{id} (GET)
+  Locations: geocodes (region), geocoordinates (radius), shape (polygon)
   No authentication required.
   User-Agent: ImmoScout_27.12_26.2_._
 
-Note: Only Berlin geocode (1276003001) has been verified to work.
-      Other geocodes may require different formats.
+Note: Run \`npm run verify-geocodes\` to check registry geocodes against the API.
+      Unverified geocodes may not work with the mobile API. Places without a
+      geocode in data/geocodes.json need --geocode.
 `);
 }
 
@@ -157,6 +217,8 @@ function propertiesToCsv(properties: Property[]): string {
     'id', 'title', 'price', 'currency', 'propertyType', 'transactionType',
     'city', 'region', 'address', 'country', 'lat', 'lon',
     'sqm', 'bedrooms', 'bathrooms', 'rooms', 'floor',
+    'commissionFree', 'commissionRate', 'commission', 'hausgeld', 'rented',
+    'rentalIncome', 'state', 'transferTax', 'notaryFees', 'acquisitionCost',
     'features', 'agency', 'url', 'scrapedAt'
   ];
 
@@ -178,6 +240,16 @@ function propertiesToCsv(properties: Property[]): string {
     p.details?.bathrooms || '',
     p.details?.rooms || '',
     p.details?.floor || '',
+    p.purchaseCosts?.commissionFree ?? '',
+    p.purchaseCosts?.commissionRate ?? '',
+    p.purchaseCosts?.commission ?? '',
+    p.purchaseCosts?.hausgeld ?? '',
+    p.purchaseCosts?.rented ?? '',
+    p.purchaseCosts?.rentalIncome ?? '',
+    p.purchaseCosts?.state || '',
+    p.purchaseCosts?.transferTax ?? '',
+    p.purchaseCosts?.notaryFees ?? '',
+    p.purchaseCosts?.totalCost ?? '',
     `"${p.features.join('; ')}"`,
     `"${(p.agent?.agency || '').replace(/"/g, '""')}"`,
     p.url,
@@ -202,7 +274,9 @@ async function main(): Promise<void> {
     livingSpaceMin: options.sqmMin,
     livingSpaceMax: options.sqmMax,
     roomsMin: options.roomsMin,
-    roomsMax: options.roomsMax
+    roomsMax: options.roomsMax,
+    since: options.since,
+    hasKnownIds: options.known ? loadKnownIds(options.known) : undefined
   };
 
   // Set transaction types
@@ -211,23 +285,53 @@ async function main(): Promise<void> {
   }
 
   // Set property types
-  if (options.propertyType && options.propertyType !== 'all') {
+  if (options.propertyType === 'all') {
+    scraperOptions.propertyTypes = PROPERTY_KINDS;
+  } else if (options.propertyType) {
     scraperOptions.propertyTypes = [options.propertyType];
   }
 
-  // Set geocode
-  if (options.city) {
-    const geocode = GEOCODES[options.city as keyof typeof GEOCODES];
-    if (geocode) {
-      scraperOptions.geocodes = [geocode];
-      logger.info(`City: ${options.city} (geocode: ${geocode})`);
-    } else {
-      logger.error(`Unknown city: ${options.city}`);
-      logger.info("Available cities: " + Object.keys(GEOCODES).join(', '));
+  // Set location
+  if (options.near || options.shape) {
+    try {
+      scraperOptions.area = options.shape
+        ? loadGeoJsonShape(options.shape)
+        : parseNear(options.near!, options.radius || 5);
+    } catch (error) {
+      logger.error(`Invalid search area: ${(error as Error).message}`);
+      process.exit(1);
+    }
+    logger.info(`Area: ${describeArea(scraperOptions.area!)}`);
+  } else if (options.city) {
+    const entries = getGeocodeRegistry().resolve(options.city);
+    const isPostcode = /^\d{5}$/.test(options.city.trim());
+    if (entries.length === 0) {
+      logger.error(`Unknown place: ${options.city} (expected a German municipality, district, state, PLZ or AGS)`);
+      process.exit(1);
+    }
+    if (entries.length > 1 && !isPostcode) {
+      logger.error(`Ambiguous place: ${options.city} matches ${entries.length} regions, pass one by AGS:`);
+      for (const entry of entries) {
+        logger.info(`  ${entry.ags}  ${describeGeocodeEntry(entry)}`);
+      }
+      process.exit(1);
+    }
+
+    const searchable = entries.filter(hasGeocode);
+    for (const entry of entries) {
+      if (hasGeocode(entry)) {
+        logger.info(`City: ${describeGeocodeEntry(entry)} (geocode: ${entry.geocode}${entry.verified ? '' : ', not verified'})`);
+      } else {
+        logger.warn(`No IS24 geocode for ${describeGeocodeEntry(entry)} (AGS ${entry.ags}); add it to data/geocodes.json or pass --geocode`);
+      }
+    }
+    if (searchable.length === 0) {
+      logger.error(`Nothing to search for ${options.city}`);
       process.exit(1);
     }
+    scraperOptions.geocodes = searchable.map(entry => entry.geocode);
   } else if (options.geocode) {
-    scraperOptions.geocodes = [options.geocode];
+    scraperOptions.geocodes = [toMobileGeocode(options.geocode)];
     logger.info(`Geocode: ${options.geocode}`);
   }
 
@@ -0,0 +1,313 @@
+/**
+ * Listing Change Detection and History
+ *
+ * Each processed listing's StandardProperty is fingerprinted (SHA-256 of its
+ * canonical JSON) and compared with the fingerprint stored for the listing,
+ * so unchanged listings are not re-ingested on every crawl. Changes to the
+ * tracked fields - price (sale), rent, living space and listing status - are
+ * appended to a per-listing history with timestamps, which is attached to
+ * the ingested property as country_specific.preis_historie and
+ * country_specific.aenderungs_historie.
+ *
+ * State is kept in one portal-level Redis hash (listing ID -> JSON), so it
+ * survives runs.
+ */
+
+import Redis from 'ioredis';
+import { createHash } from 'crypto';
+import { StandardProperty } from './transformer';
+import { createLogger } from './logger';
+
+const logger = createLogger('ListingHistory');
+
+export type TrackedField = 'price' | 'rent' | 'sqm' | 'status';
+
+export type ListingStatus = 'active' | 'removed';
+
+/**
+ * Tracked field values of a listing at one point in time
+ */
+export interface ListingSnapshot {
+  price?: number;           // Purchase price (sale listings)
+  rent?: number;            // Rent (rent listings)
+  sqm?: number;             // Living space
+  status: ListingStatus;
+}
+
+/**
+ * One change of a tracked field (from is null for the first observation)
+ */
+export interface HistoryEntry {
+  field: TrackedField;
+  from: number | string | null;
+  to: number | string | null;
+  changedAt: string;
+}
+
+/**
+ * Stored state of a listing
+ */
+export interface ListingState {
+  fingerprint: string;
+  snapshot: ListingSnapshot;
+  history: HistoryEntry[];
+  firstSeenAt: string;
+  lastChangedAt: string;
+}
+
+/**
+ * Result of comparing a listing against its stored state
+ */
+export interface ListingChange {
+  changed: boolean;         // New listing, different content or relisted
+  isNew: boolean;
+  state: ListingState;      // State to save once the listing is ingested
+}
+
+const TRACKED_FIELDS: TrackedField[] = ['price', 'rent', 'sqm', 'status'];
+
+// German field names used in country_specific
+const FIELD_LABELS: Record<TrackedField, string> = {
+  price: 'kaufpreis',
+  rent: 'miete',
+  sqm: 'wohnflaeche',
+  status: 'status'
+};
+
+export class ListingHistoryStore {
+  private redis: Redis;
+  private stateKey: string;
+
+  /**
+   * @param maxEntries History entries kept per listing (oldest are dropped)
+   */
+  constructor(
+    portal: string,
+    private maxEntries: number,
+    redisUrl?: string
+  ) {
+    this.redis = new Redis(redisUrl || process.env.REDIS_URL || 'redis://localhost:6379', {
+      maxRetriesPerRequest: 3
+    });
+    this.stateKey = `landomo:${portal}:listing_state`;
+
+    this.redis.on('error', (err) => {
+      logger.error('Redis error:', err);
+    });
+  }
+
+  /**
+   * Get the stored state of a listing
+   */
+  async get(id: string): Promise<ListingState | null> {
+    const value = await this.redis.hget(this.stateKey, id);
+    if (!value) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(value) as ListingState;
+    } catch (error) {
+      logger.warn(`Invalid state for ${id}, ignoring`);
+      return null;
+    }
+  }
+
+  /**
+   * Compare a listing against its stored state
+   *
+   * Nothing is written; call save() with the returned state once the
+   * listing has been ingested, so a failed ingestion is retried as a change.
+   */
+  async compare(id: string, property: StandardProperty, now: Date = new Date()): Promise<ListingChange> {
+    const previous = await this.get(id);
+    const fingerprint = fingerprintProperty(property);
+    const snapshot = takeSnapshot(property);
+    const changedAt = now.toISOString();
+
+    if (!previous) {
+      return {
+        changed: true,
+        isNew: true,
+        state: {
+          fingerprint,
+          snapshot,
+          history: diffSnapshots({ status: 'active' }, snapshot, changedAt, true),
+          firstSeenAt: changedAt,
+          lastChangedAt: changedAt
+        }
+      };
+    }
+
+    const relisted = previous.snapshot.status !== 'active';
+    if (previous.fingerprint === fingerprint && !relisted) {
+      return { changed: false, isNew: false, state: previous };
+    }
+
+    const entries = diffSnapshots(previous.snapshot, snapshot, changedAt);
+    return {
+      changed: true,
+      isNew: false,
+      state: {
+        fingerprint,
+        snapshot,
+        history: [...previous.history, ...entries].slice(-this.maxEntries),
+        firstSeenAt: previous.firstSeenAt,
+        lastChangedAt: entries.length > 0 ? changedAt : previous.lastChangedAt
+      }
+    };
+  }
+
+  /**
+   * Check whether a listing's tracked fields match its stored state
+   *
+   * For listings compared without their expose-only details, whose
+   * fingerprint cannot match the ingested version's.
+   */
+  async isUnchanged(id: string, property: StandardProperty): Promise<boolean> {
+    const previous = await this.get(id);
+    if (!previous || previous.snapshot.status !== 'active') {
+      return false;
+    }
+
+    const snapshot = takeSnapshot(property);
+    return TRACKED_FIELDS.every(field => previous.snapshot[field] === snapshot[field]);
+  }
+
+  /**
+   * Store a listing's state
+   */
+  async save(id: string, state: ListingState): Promise<void> {
+    await this.redis.hset(this.stateKey, id, JSON.stringify(state));
+  }
+
+  /**
+   * Record that listings were removed from IS24
+   */
+  async markRemoved(ids: string[], removedAt: Date = new Date()): Promise<void> {
+    for (const id of ids) {
+      const state = await this.get(id);
+      if (!state || state.snapshot.status === 'removed') continue;
+
+      const changedAt = removedAt.toISOString();
+      await this.save(id, {
+        ...state,
+        snapshot: { ...state.snapshot, status: 'removed' },
+        history: [
+          ...state.history,
+          { field: 'status' as const, from: state.snapshot.status, to: 'removed', changedAt }
+        ].slice(-this.maxEntries),
+        lastChangedAt: changedAt
+      });
+    }
+  }
+
+  /**
+   * Close Redis connection
+   */
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+
+/**
+ * Content fingerprint of a transformed listing
+ */
+export function fingerprintProperty(property: StandardProperty): string {
+  return createHash('sha256').update(canonicalJson(property)).digest('hex');
+}
+
+/**
+ * Tracked field values of a transformed listing
+ */
+export function takeSnapshot(property: StandardProperty): ListingSnapshot {
+  const snapshot: ListingSnapshot = { status: 'active' };
+
+  if (property.price) {
+    snapshot[property.transaction_type === 'rent' ? 'rent' : 'price'] = property.price;
+  }
+  if (property.details.sqm) {
+    snapshot.sqm = property.details.sqm;
+  }
+
+  return snapshot;
+}
+
+/**
+ * History entries for the tracked fields that differ between two snapshots
+ *
+ * @param initial First observation: entries are recorded with from = null
+ */
+export function diffSnapshots(
+  previous: ListingSnapshot,
+  next: ListingSnapshot,
+  changedAt: string,
+  initial: boolean = false
+): HistoryEntry[] {
+  const entries: HistoryEntry[] = [];
+
+  for (const field of TRACKED_FIELDS) {
+    if (initial) {
+      if (field !== 'status' && next[field] !== undefined) {
+        entries.push({ field, from: null, to: next[field]!, changedAt });
+      }
+    } else if (previous[field] !== next[field]) {
+      entries.push({ field, from: previous[field] ?? null, to: next[field] ?? null, changedAt });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Germany-specific history fields for a listing's country_specific
+ *
+ * - preis_historie: price or rent over time, first observation included
+ * - aenderungs_historie: every change of a tracked field
+ * - erstmals_erfasst: when the listing was first seen
+ */
+export function buildHistoryFields(state: ListingState): Record<string, any> {
+  const fields: Record<string, any> = {
+    erstmals_erfasst: state.firstSeenAt
+  };
+
+  const prices = state.history
+    .filter(entry => (entry.field === 'price' || entry.field === 'rent') && entry.to !== null)
+    .map(entry => ({ datum: entry.changedAt, preis: entry.to }));
+  if (prices.length > 0) {
+    fields.preis_historie = prices;
+  }
+
+  const changes = state.history
+    .filter(entry => entry.from !== null)
+    .map(entry => ({
+      datum: entry.changedAt,
+      feld: FIELD_LABELS[entry.field],
+      alt: entry.from,
+      neu: entry.to
+    }));
+  if (changes.length > 0) {
+    fields.aenderungs_historie = changes;
+  }
+
+  return fields;
+}
+
+/**
+ * JSON with object keys sorted, so equal content gives equal output
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
@@ -0,0 +1,156 @@
+/**
+ * Listing Providers
+ *
+ * Common search / expose interface implemented by both IS24 clients: the
+ * mobile API scraper and the official REST API scraper. The coordinator and
+ * worker pick one via IS24_PROVIDER (mobile | rest). When the REST API is
+ * selected, the mobile API can serve as a fallback if OAuth credentials are
+ * missing or the REST quota runs out (IS24_PROVIDER_FALLBACK, default on).
+ */
+
+import { AxiosError } from 'axios';
+import { Property } from './shared-types';
+import { IS24SearchParams, ImmobilienScout24Scraper, ScrapeSearchOptions } from './scraper';
+import { IS24RestScraper } from './rest-scraper';
+import { RateLimiter } from './rate-limiter';
+import { GeoArea } from './geo-search';
+import { PropertyKind } from './real-estate-types';
+import { config } from './config';
+import { createLogger } from './logger';
+
+const logger = createLogger('ListingProvider');
+
+export type ProviderName = 'mobile' | 'rest';
+
+export type SearchFilters = Pick<
+  IS24SearchParams,
+  'price' | 'livingspace' | 'numberofrooms' | 'plotarea' | 'totalfloorspace'
+>;
+
+/**
+ * A single search by geocode or by area (radius / polygon)
+ */
+export interface SearchQuery {
+  transactionType: 'sale' | 'rent';
+  propertyType: PropertyKind;
+  geocode?: string;
+  area?: GeoArea;           // Takes precedence over geocode
+  filters?: SearchFilters;
+}
+
+/**
+ * Search and expose access to IS24
+ *
+ * Listing IDs returned by every provider carry the `is24-` prefix, so queue
+ * entries are interchangeable between providers.
+ */
+export interface ListingProvider {
+  readonly name: ProviderName;
+
+  /** Number of hits for a search */
+  countListings(query: SearchQuery): Promise<number>;
+
+  /** Page through a search, up to maxResults listings */
+  searchListings(query: SearchQuery, maxResults: number, options?: ScrapeSearchOptions): Promise<Property[]>;
+
+  /** Fetch one listing by expose ID (without prefix); null when it no longer exists */
+  getExpose(exposeId: string): Promise<Property | null>;
+}
+
+/**
+ * Shared limiters, one bucket per API
+ */
+export interface ProviderRateLimiters {
+  mobile: RateLimiter;
+  rest: RateLimiter;
+}
+
+/**
+ * Provider that switches to a fallback once the primary reports that it is
+ * unauthorized or out of quota (HTTP 401, 403, 429)
+ */
+export class FallbackListingProvider implements ListingProvider {
+  private active: ListingProvider;
+
+  constructor(
+    private primary: ListingProvider,
+    private fallback: ListingProvider
+  ) {
+    this.active = primary;
+  }
+
+  get name(): ProviderName {
+    return this.active.name;
+  }
+
+  async countListings(query: SearchQuery): Promise<number> {
+    return this.call(provider => provider.countListings(query));
+  }
+
+  async searchListings(query: SearchQuery, maxResults: number, options?: ScrapeSearchOptions): Promise<Property[]> {
+    return this.call(provider => provider.searchListings(query, maxResults, options));
+  }
+
+  async getExpose(exposeId: string): Promise<Property | null> {
+    return this.call(provider => provider.getExpose(exposeId));
+  }
+
+  private async call<T>(fn: (provider: ListingProvider) => Promise<T>): Promise<T> {
+    try {
+      return await fn(this.active);
+    } catch (error) {
+      if (this.active === this.fallback || !isQuotaError(error)) {
+        throw error;
+      }
+
+      const status = (error as AxiosError).response?.status;
+      logger.warn(`${this.primary.name} API returned ${status}, falling back to ${this.fallback.name} API`);
+      this.active = this.fallback;
+      return fn(this.active);
+    }
+  }
+}
+
+/**
+ * Check whether an error means the API cannot be used any more (auth or quota)
+ */
+function isQuotaError(error: unknown): boolean {
+  const status = (error as AxiosError)?.response?.status;
+  return status === 401 || status === 403 || status === 429;
+}
+
+/**
+ * Create the configured listing provider
+ */
+export function createListingProvider(
+  limiters: ProviderRateLimiters,
+  options: { verbose?: boolean; pageSize?: number } = {}
+): ListingProvider {
+  const mobile = new ImmobilienScout24Scraper({
+    verbose: options.verbose || false,
+    rateLimit: 2000,
+    pageSize: options.pageSize || config.resultsPerPage,
+    rateLimiter: limiters.mobile
+  });
+
+  if (config.provider.name !== 'rest') {
+    return mobile;
+  }
+
+  const rest = new IS24RestScraper({
+    verbose: options.verbose || false,
+    pageSize: options.pageSize || config.resultsPerPage,
+    rateLimiter: limiters.rest
+  });
+
+  if (!config.provider.fallbackToMobile) {
+    return rest;
+  }
+
+  if (!rest.hasCredentials()) {
+    logger.warn('REST API selected but OAuth credentials are missing, using mobile API');
+    return mobile;
+  }
+
+  return new FallbackListingProvider(rest, mobile);
+}
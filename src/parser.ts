@@ -1,4 +1,9 @@
 import { Property } from './shared-types';
+import { PropertyKind, REAL_ESTATE_TYPES, extractTypeDetails, parsePropertyKind } from './real-estate-types';
+import { ListingAttribute, interpretAttributes, resolveAreas } from './attribute-parser';
+import { extractRentCosts, rentCostsFromAttributes } from './rent-costs';
+import { computeAcquisitionCosts, extractPurchaseCosts, purchaseCostsFromAttributes } from './purchase-costs';
+import { extractEnergyCertificate } from './energy-certificate';
 
 /**
  * Extended location interface with postcode support
@@ -17,6 +22,8 @@ interface ExtendedLocation {
  */
 interface ExtendedDetails {
   sqm?: number;
+  plotArea?: number;
+  floorSpace?: number;
   rooms?: number;
   bedrooms?: number;
   bathrooms?: number;
@@ -76,11 +83,8 @@ export interface ResultItem {
   published?: string;
   isNewObject?: boolean;
   liveVideoTourAvailable?: boolean;
-  attributes?: Array<{
-    label?: string;
-    value?: string;
-  }>;
-  realEstateType?: string;  // 'apartmentbuy', 'apartmentrent', 'housebuy', 'houserent'
+  attributes?: ListingAttribute[];
+  realEstateType?: string;  // 'apartmentbuy', 'houserent', 'livingbuysite', 'office', ...
   energyEfficiencyClass?: string;
   realtor?: {
     logoUrlScale?: string;
@@ -160,6 +164,19 @@ interface LegacyRealEstate {
       value?: number;
     };
   };
+  baseRent?: number;        // Kaltmiete
+  serviceCharge?: number;   // Nebenkosten
+  heatingCosts?: number;
+  heatingCostsInServiceCharge?: string; // YES, NO, NOT_APPLICABLE
+  totalRent?: number;       // Warmmiete
+  deposit?: string | number; // Kaution, often free text ("3 Kaltmieten")
+  courtage?: {
+    hasCourtage?: string;   // YES, NO
+    courtage?: string;      // Buyer commission, e.g. "3,57 % inkl. MwSt."
+    courtageNote?: string;
+  };
+  rented?: boolean | string; // vermietet
+  rentalIncome?: number;    // Current monthly rental income
   livingSpace?: number;
   numberOfRooms?: number;
   numberOfBedRooms?: number;
@@ -176,6 +193,17 @@ interface LegacyRealEstate {
   handicappedAccessible?: boolean;
   petsAllowed?: string;
   energyEfficiencyClass?: string;
+  energyCertificate?: {
+    energyCertificateAvailability?: string; // AVAILABLE, NOT_AVAILABLE_YET, NOT_REQUIRED
+    energyCertificateCreationDate?: string; // BEFORE_01_MAY_2014, FROM_01_MAY_2014 or a date
+    energyEfficiencyClass?: string;         // A_PLUS, A, ..., H
+  };
+  buildingEnergyRatingType?: string;        // ENERGY_CONSUMPTION, ENERGY_REQUIRED
+  thermalCharacteristic?: number;           // Energy value in kWh/(m²·a)
+  energyConsumptionContainsWarmWater?: string;
+  energySourcesEnev2014?: {
+    energySourceEnev2014?: string | string[];
+  };
   condition?: string;
   heatingType?: string;
   constructionYear?: number;
@@ -198,6 +226,9 @@ interface LegacyRealEstate {
     cellPhoneNumber?: string;
     email?: string;
   };
+  // Type-specific fields (plotArea, totalFloorSpace, garageType, ...),
+  // see REAL_ESTATE_TYPES
+  [field: string]: unknown;
 }
 
 // Expose (detail) response types
@@ -209,101 +240,21 @@ export interface MobileExposeResponse {
   };
 }
 
-/**
- * Parse property type from real estate type string
- */
-function parsePropertyTypeFromString(realEstateType?: string): string {
-  if (!realEstateType) return 'property';
-
-  const type = realEstateType.toLowerCase();
-  if (type.includes('apartment') || type.includes('wohnung')) return 'apartment';
-  if (type.includes('house') || type.includes('haus')) return 'house';
-  if (type.includes('land') || type.includes('grund')) return 'land';
-  if (type.includes('office') || type.includes('buero')) return 'office';
-  if (type.includes('retail') || type.includes('laden')) return 'retail';
-  if (type.includes('gastro')) return 'restaurant';
-  if (type.includes('industrial') || type.includes('gewerbe')) return 'commercial';
-
-  return 'property';
-}
-
 /**
  * Parse transaction type from real estate type string
+ *
+ * Commercial types (office, store, ...) do not say; search results of those
+ * take the transaction type of the search.
  */
 function parseTransactionTypeFromString(realEstateType?: string): 'sale' | 'rent' {
   if (!realEstateType) return 'sale';
 
   const type = realEstateType.toLowerCase();
   if (type.includes('rent') || type.includes('miete')) return 'rent';
+  if (type.includes('shortterm') || type.includes('flatshare')) return 'rent';
   return 'sale';
 }
 
-/**
- * Parse price from attributes array
- * Attributes format: [{label: "", value: "227.144 \u20ac"}, {label: "", value: "34,26 m\u00b2"}, ...]
- */
-function parsePriceFromAttributes(attributes?: Array<{ label?: string; value?: string }>): { price: number; currency: string } {
-  if (!attributes || attributes.length === 0) {
-    return { price: 0, currency: 'EUR' };
-  }
-
-  // First attribute is typically the price
-  const priceAttr = attributes[0]?.value || '';
-
-  // Remove currency symbol and parse
-  const cleanPrice = priceAttr
-    .replace(/[^\d.,]/g, '')  // Remove non-numeric chars except . and ,
-    .replace(/\./g, '')        // Remove thousand separators (German format: 1.000.000)
-    .replace(',', '.');        // Convert decimal comma to point
-
-  const price = parseFloat(cleanPrice) || 0;
-
-  // Detect currency
-  let currency = 'EUR';
-  if (priceAttr.includes('CHF')) currency = 'CHF';
-  else if (priceAttr.includes('$')) currency = 'USD';
-
-  return { price, currency };
-}
-
-/**
- * Parse living space from attributes array
- */
-function parseLivingSpaceFromAttributes(attributes?: Array<{ label?: string; value?: string }>): number | undefined {
-  if (!attributes || attributes.length < 2) return undefined;
-
-  // Second attribute is typically the living space
-  const sqmAttr = attributes[1]?.value || '';
-
-  if (sqmAttr.includes('m')) {
-    const cleanSqm = sqmAttr
-      .replace(/[^\d.,]/g, '')
-      .replace(',', '.');
-    return parseFloat(cleanSqm) || undefined;
-  }
-
-  return undefined;
-}
-
-/**
- * Parse rooms from attributes array
- */
-function parseRoomsFromAttributes(attributes?: Array<{ label?: string; value?: string }>): number | undefined {
-  if (!attributes || attributes.length < 3) return undefined;
-
-  // Third attribute is typically the rooms
-  const roomsAttr = attributes[2]?.value || '';
-
-  if (roomsAttr.includes('Zi')) {
-    const cleanRooms = roomsAttr
-      .replace(/[^\d.,]/g, '')
-      .replace(',', '.');
-    return parseFloat(cleanRooms) || undefined;
-  }
-
-  return undefined;
-}
-
 /**
  * Parse city and district from address line
  * Format: "Neuenhagener Str. 48, 12623 Berlin, Mahlsdorf (Hellersdorf)"
@@ -341,7 +292,6 @@ function extractFeaturesFromItem(item: ResultItem): string[] {
 
   if (item.liveVideoTourAvailable) features.push('virtual-tour');
   if (item.isNewObject) features.push('new-build');
-  if (item.energyEfficiencyClass) features.push(`energy-class-${item.energyEfficiencyClass}`);
   if (item.tags) features.push(...item.tags);
 
   // Extract additional features if present
@@ -396,17 +346,42 @@ function parsePostcodeFromAddressLine(addressLine?: string): string | undefined
   return postcodeMatch ? postcodeMatch[1] : undefined;
 }
 
+/**
+ * Property kind of a result item; project listings are new-build projects
+ */
+function parseResultItemKind(item: ResultItem): PropertyKind | 'property' {
+  const kind = parsePropertyKind(item.realEstateType);
+  return kind === 'apartment' && item.isProject ? 'new_build' : kind;
+}
+
 /**
  * Parse a new format result item to Property
+ *
+ * @param searchTransactionType Transaction type of the search, for types
+ *   whose name does not say (commercial types)
  */
-export function parseResultItem(resultItem: ResultListItem): Property | null {
+export function parseResultItem(
+  resultItem: ResultListItem,
+  searchTransactionType?: 'sale' | 'rent'
+): Property | null {
   const item = resultItem.item;
   if (!item || !item.id) return null;
 
-  const { price, currency } = parsePriceFromAttributes(item.attributes);
+  const propertyType = parseResultItemKind(item);
+  const spec = propertyType === 'property' ? undefined : REAL_ESTATE_TYPES[propertyType];
+
+  // An unlabelled size attribute is the plot area for land, the floor space
+  // for commercial types and the living space otherwise (for houses, a
+  // second one is the plot area)
+  const attributes = resolveAreas(
+    interpretAttributes(item.attributes),
+    spec?.areaField === 'plotArea' ? 'plotArea' : spec?.areaField === 'totalFloorSpace' ? 'floorSpace' : 'livingSpace',
+    propertyType === 'house'
+  );
+
   // Prefer direct fields if available, fall back to attributes parsing
-  const sqm = item.livingSpace ?? parseLivingSpaceFromAttributes(item.attributes);
-  const rooms = item.numberOfRooms ?? parseRoomsFromAttributes(item.attributes);
+  const rooms = item.numberOfRooms ??
+    (!spec || spec.hasRooms ? attributes.rooms : undefined);
   const { address, city, region } = parseAddressLine(item.address?.line);
 
   // Extract postcode from address line or direct field
@@ -441,13 +416,22 @@ export function parseResultItem(resultItem: ResultListItem): Property | null {
 
   // Build extended details with construction year and available from date
   const details: ExtendedDetails = {
-    sqm,
     rooms,
     bedrooms: item.numberOfBedRooms,
     bathrooms: item.numberOfBathRooms,
     floor: item.floor
   };
 
+  // Garages and investments list no comparable size
+  if (spec?.areaField === 'plotArea') {
+    details.plotArea = attributes.plotArea;
+  } else if (spec?.areaField === 'totalFloorSpace') {
+    details.floorSpace = attributes.floorSpace;
+  } else if (!spec || spec.areaField) {
+    details.sqm = item.livingSpace ?? attributes.livingSpace;
+    details.plotArea = attributes.plotArea;
+  }
+
   // Add construction year if available (documented in API)
   if (item.constructionYear) {
     details.constructionYear = item.constructionYear;
@@ -458,21 +442,41 @@ export function parseResultItem(resultItem: ResultListItem): Property | null {
     details.availableFrom = item.freeFrom;
   }
 
+  const transactionType = searchTransactionType ?? parseTransactionTypeFromString(item.realEstateType);
+  const rentCosts = transactionType === 'rent' ? rentCostsFromAttributes(attributes) : undefined;
+  const purchaseCosts = transactionType === 'sale' && attributes.price
+    ? computeAcquisitionCosts(attributes.price, purchaseCostsFromAttributes(attributes, item.tags), postcode, location.city)
+    : undefined;
+  const energyCertificate = extractEnergyCertificate(item, propertyType);
+
   const property: Property = {
     id: `is24-${item.id}`,
     source: 'immobilienscout24',
     url: `https://www.immobilienscout24.de/expose/${item.id}`,
     title: item.title || 'Property listing',
-    price,
-    currency,
-    propertyType: parsePropertyTypeFromString(item.realEstateType),
-    transactionType: parseTransactionTypeFromString(item.realEstateType),
+    price: rentCosts?.baseRent ?? attributes.price ?? 0,
+    currency: attributes.currency,
+    propertyType,
+    transactionType,
     location: location as Property['location'],
     details: details as Property['details'],
+    ...(rentCosts && { rentCosts }),
+    ...(purchaseCosts && { purchaseCosts }),
+    ...(energyCertificate && { energyCertificate }),
     features: extractFeaturesFromItem(item),
     images: extractImagesFromItem(item),
     description,
     agent,
+    metadata: {
+      realEstateType: item.realEstateType,
+      ...(item.published && { publishedAt: item.published }),
+      ...(item.isProject && { isProject: true }),
+      ...(attributes.priceFrom && { priceFrom: true }),
+      ...(attributes.priceMax !== undefined && { priceMax: attributes.priceMax }),
+      ...(attributes.pricePerSqm !== undefined && { pricePerSqm: attributes.pricePerSqm }),
+      attributeSources: attributes.sources,
+      ...(attributes.unrecognized.length > 0 && { unrecognizedAttributes: attributes.unrecognized })
+    },
     scrapedAt: new Date().toISOString()
   };
 
@@ -481,8 +485,14 @@ export function parseResultItem(resultItem: ResultListItem): Property | null {
 
 /**
  * Parse a legacy format listing entry to Property
+ *
+ * @param searchTransactionType Transaction type of the search, for types
+ *   whose name does not say (commercial types)
  */
-export function parseLegacyListingEntry(entry: LegacyListingEntry): Property | null {
+export function parseLegacyListingEntry(
+  entry: LegacyListingEntry,
+  searchTransactionType?: 'sale' | 'rent'
+): Property | null {
   const realEstate = entry.realEstate;
   if (!realEstate) return null;
 
@@ -502,7 +512,6 @@ export function parseLegacyListingEntry(entry: LegacyListingEntry): Property | n
   if (realEstate.guestToilet) features.push('guest-toilet');
   if (realEstate.handicappedAccessible) features.push('wheelchair-accessible');
   if (realEstate.petsAllowed && realEstate.petsAllowed.toLowerCase() !== 'no') features.push('pets-allowed');
-  if (realEstate.energyEfficiencyClass) features.push(`energy-class-${realEstate.energyEfficiencyClass}`);
   if (realEstate.parkingSpaceType) features.push(`parking-${realEstate.parkingSpaceType.toLowerCase()}`);
   if (realEstate.condition) features.push(`condition-${realEstate.condition.toLowerCase()}`);
   if (realEstate.heatingType) features.push(`heating-${realEstate.heatingType.toLowerCase()}`);
@@ -564,9 +573,15 @@ export function parseLegacyListingEntry(entry: LegacyListingEntry): Property | n
     location.postcode = address.postcode;
   }
 
+  // Property type and its type-specific fields
+  const propertyType = parsePropertyKind(realEstate['@xsi.type']);
+  const typeDetails = extractTypeDetails(propertyType, realEstate);
+
   // Build extended details with additional fields from API
   const details: ExtendedDetails = {
-    sqm: realEstate.livingSpace,
+    sqm: typeDetails.sqm,
+    plotArea: typeDetails.plotArea,
+    floorSpace: typeDetails.floorSpace,
     rooms: realEstate.numberOfRooms,
     bedrooms: realEstate.numberOfBedRooms,
     bathrooms: realEstate.numberOfBathRooms,
@@ -588,21 +603,38 @@ export function parseLegacyListingEntry(entry: LegacyListingEntry): Property | n
     details.availableFrom = realEstate.freeFrom;
   }
 
+  // Rent: base rent, falling back to the total rent
+  const transactionType = searchTransactionType ??
+    parseTransactionTypeFromString(realEstate.commercializationType || realEstate['@xsi.type']);
+  const rentCosts = transactionType === 'rent' ? extractRentCosts(realEstate) : undefined;
+  const purchaseCosts = transactionType === 'sale' && price?.value
+    ? computeAcquisitionCosts(price.value, extractPurchaseCosts(realEstate), address?.postcode, location.city)
+    : undefined;
+  const energyCertificate = extractEnergyCertificate(realEstate, propertyType);
+
   const property: Property = {
     id: `is24-${id}`,
     source: 'immobilienscout24',
     url: `https://www.immobilienscout24.de/expose/${id}`,
     title: realEstate.title || 'Property listing',
-    price: price?.value || 0,
+    price: (rentCosts ? rentCosts.baseRent ?? rentCosts.totalRent : price?.value) || 0,
     currency: price?.currency || 'EUR',
-    propertyType: parsePropertyTypeFromString(realEstate['@xsi.type']),
-    transactionType: realEstate.commercializationType?.toLowerCase().includes('rent') ? 'rent' : 'sale',
+    propertyType,
+    transactionType,
     location: location as Property['location'],
     details: details as Property['details'],
+    ...(rentCosts && { rentCosts }),
+    ...(purchaseCosts && { purchaseCosts }),
+    ...(energyCertificate && { energyCertificate }),
     features,
     images,
     description,
     agent,
+    metadata: {
+      realEstateType: realEstate['@xsi.type'],
+      ...(entry['@publishDate'] && { publishedAt: entry['@publishDate'] }),
+      ...typeDetails.metadata
+    },
     scrapedAt: new Date().toISOString()
   };
 
@@ -612,8 +644,11 @@ export function parseLegacyListingEntry(entry: LegacyListingEntry): Property | n
 /**
  * Parse search response to Property array
  * Supports both new and legacy response formats
+ *
+ * @param transactionType Transaction type of the search, when it is only
+ *   given by commercializationtype (commercial types)
  */
-export function parseSearchResponse(response: MobileSearchResponse): {
+export function parseSearchResponse(response: MobileSearchResponse, transactionType?: 'sale' | 'rent'): {
   properties: Property[];
   totalHits: number;
   currentPage: number;
@@ -632,7 +667,7 @@ export function parseSearchResponse(response: MobileSearchResponse): {
 
     for (const resultItem of response.resultListItems) {
       if (resultItem.type === 'EXPOSE_RESULT' && resultItem.item) {
-        const property = parseResultItem(resultItem);
+        const property = parseResultItem(resultItem, transactionType);
         if (property) {
           properties.push(property);
         }
@@ -660,7 +695,7 @@ export function parseSearchResponse(response: MobileSearchResponse): {
 
         if (entryGroup.resultlistEntry) {
           for (const entry of entryGroup.resultlistEntry) {
-            const property = parseLegacyListingEntry(entry);
+            const property = parseLegacyListingEntry(entry, transactionType);
             if (property) {
               properties.push(property);
             }
@@ -0,0 +1,397 @@
+/**
+ * Listing Plausibility Rules
+ *
+ * Parsing can yield listings that are well-formed but wrong: a price of 0,
+ * 0 m², coordinates of (0, 0) from a partial wgs84Coordinate, a postcode
+ * that does not exist in Germany. Each rule checks one aspect of a Property
+ * or StandardProperty. The worker checks every listing as parsed (original
+ * currency, type-specific sizes) and as transformed; listings that fail any
+ * rule are quarantined instead of being sent to the Core Service.
+ *
+ * Rules:
+ * - price: price above 0
+ * - area: size of the type (living space, plot area, floor space) above 0
+ * - pricePerSqm: price per m² within the range of the transaction type
+ *   (living and floor space only - plot prices range from farmland to city
+ *   centres; euro prices only, as the thresholds are in €)
+ * - coordinates: inside an outline of Germany, with a margin at the border
+ * - postcode: five digits, 01001-99998
+ * - rooms: at least minRooms
+ * - constructionYear: between the minimum and a few years ahead (projects)
+ *
+ * Rules only judge values that are present; missing values are left to the
+ * schema-drift monitor.
+ */
+
+import { Property } from './shared-types';
+import { StandardProperty } from './transformer';
+import { REAL_ESTATE_TYPES, isPropertyKind } from './real-estate-types';
+
+export type RuleName =
+  | 'price'
+  | 'area'
+  | 'pricePerSqm'
+  | 'coordinates'
+  | 'postcode'
+  | 'rooms'
+  | 'constructionYear';
+
+export const RULE_NAMES: RuleName[] = [
+  'price',
+  'area',
+  'pricePerSqm',
+  'coordinates',
+  'postcode',
+  'rooms',
+  'constructionYear'
+];
+
+export type AreaKind = 'living' | 'plot' | 'floor';
+
+/**
+ * Values of a listing the rules look at, taken from a Property or a
+ * StandardProperty
+ */
+export interface ListingFacts {
+  transactionType: 'sale' | 'rent';
+  price: number;
+  currency?: string;
+  areaKind?: AreaKind;      // Unset for types without a comparable size
+  area?: number;
+  coordinates?: { lat: number; lon: number };
+  postcode?: string;
+  rooms?: number;
+  constructionYear?: number;
+}
+
+export interface PriceRange {
+  min: number;
+  max: number;
+}
+
+export interface PlausibilityThresholds {
+  pricePerSqm: Record<'sale' | 'rent', PriceRange>; // € per m² (rent: monthly)
+  minRooms: number;
+  minConstructionYear: number;
+  maxYearsAhead: number;    // Construction years allowed in the future
+  disabledRules: RuleName[];
+}
+
+/**
+ * A failed rule
+ */
+export interface RuleViolation {
+  rule: RuleName;
+  field: string;
+  message: string;
+  value: any;
+}
+
+type RuleCheck = (facts: ListingFacts, thresholds: PlausibilityThresholds) => Omit<RuleViolation, 'rule'> | null;
+
+/**
+ * Outline of Germany as [lat, lon] points: the land borders, and the coast
+ * drawn offshore around the North Sea and Baltic islands (Helgoland
+ * included). The outline is accurate to a few kilometres; points within
+ * GERMANY_BORDER_MARGIN_KM of it pass, so border towns are not rejected.
+ */
+export const GERMANY_OUTLINE: [number, number][] = [
+  // Denmark
+  [55.10, 8.35], [54.91, 8.64], [54.91, 9.00], [54.87, 9.25], [54.83, 9.45],
+  // Baltic Sea
+  [54.85, 9.95], [54.65, 10.15], [54.50, 10.55], [54.60, 11.25], [54.25, 11.75],
+  [54.30, 12.10], [54.55, 12.50], [54.75, 13.25], [54.75, 13.55], [54.45, 13.85],
+  [54.20, 14.05], [53.96, 14.23],
+  // Poland (Stettin Lagoon, Oder, Neisse)
+  [53.75, 14.22], [53.56, 14.25], [53.45, 14.37], [53.33, 14.42], [53.25, 14.44],
+  [53.10, 14.37], [52.85, 14.13], [52.73, 14.30], [52.60, 14.62], [52.35, 14.56],
+  [52.15, 14.70], [52.07, 14.76], [51.95, 14.72], [51.75, 14.65], [51.55, 14.73],
+  [51.45, 14.95], [51.30, 15.03], [51.15, 15.00], [51.00, 14.95], [50.87, 14.82],
+  // Czech Republic (Lusatia, Ore Mountains, Vogtland, Bavarian Forest)
+  [50.94, 14.60], [51.02, 14.56], [51.05, 14.44], [50.98, 14.36], [50.92, 14.40],
+  [50.88, 14.25], [50.85, 14.05], [50.75, 13.85], [50.72, 13.60], [50.60, 13.45],
+  [50.50, 13.20], [50.42, 12.97], [50.40, 12.75], [50.35, 12.55], [50.25, 12.40],
+  [50.17, 12.33], [50.24, 12.25], [50.33, 12.15], [50.27, 12.08], [50.20, 12.15],
+  [50.13, 12.20], [50.07, 12.23], [49.98, 12.45], [49.90, 12.53], [49.80, 12.47],
+  [49.65, 12.52], [49.50, 12.65], [49.32, 12.88], [49.12, 13.20], [49.00, 13.40],
+  [48.87, 13.65], [48.77, 13.84],
+  // Austria (Danube, Inn, Salzach, Alps)
+  [48.52, 13.73], [48.56, 13.47], [48.44, 13.43], [48.26, 13.03], [48.16, 12.84],
+  [48.06, 12.77], [47.94, 12.93], [47.84, 12.98], [47.70, 13.07], [47.52, 12.95],
+  [47.60, 12.80], [47.70, 12.60], [47.68, 12.45], [47.62, 12.20], [47.58, 12.00],
+  [47.56, 11.72], [47.50, 11.45], [47.40, 11.25], [47.42, 11.00], [47.48, 10.90],
+  [47.55, 10.85], [47.55, 10.55], [47.45, 10.45], [47.27, 10.18], [47.38, 10.10],
+  [47.45, 9.98], [47.52, 9.73],
+  // Switzerland (Lake Constance, High Rhine)
+  [47.60, 9.45], [47.66, 9.18], [47.69, 8.77], [47.75, 8.75], [47.81, 8.62],
+  [47.73, 8.45], [47.60, 8.55], [47.58, 8.45], [47.60, 8.25], [47.55, 7.95],
+  [47.56, 7.75], [47.59, 7.59],
+  // France (Upper Rhine, Palatinate, Saarland)
+  [47.80, 7.55], [48.03, 7.58], [48.20, 7.65], [48.35, 7.72], [48.57, 7.80],
+  [48.67, 7.92], [48.82, 8.12], [48.97, 8.23], [49.04, 7.90], [49.12, 7.70],
+  [49.12, 7.50], [49.18, 7.35], [49.10, 7.10], [49.20, 6.90], [49.24, 6.70],
+  [49.35, 6.58], [49.47, 6.37],
+  // Luxembourg (Moselle, Sauer, Our)
+  [49.71, 6.50], [49.81, 6.42], [49.93, 6.20], [50.05, 6.14], [50.13, 6.14],
+  // Belgium
+  [50.23, 6.22], [50.37, 6.29], [50.45, 6.33], [50.52, 6.19], [50.62, 6.17],
+  [50.72, 6.09], [50.75, 6.02],
+  // Netherlands
+  [50.87, 6.08], [51.05, 5.87], [51.15, 6.10], [51.25, 6.20], [51.37, 6.23],
+  [51.55, 6.10], [51.70, 6.05], [51.79, 5.95], [51.87, 6.15], [51.85, 6.45],
+  [51.95, 6.75], [52.07, 6.85], [52.22, 7.05], [52.35, 6.98], [52.45, 6.97],
+  [52.63, 6.72], [52.80, 7.05], [53.00, 7.20], [53.32, 7.18],
+  // North Sea
+  [53.45, 6.95], [53.62, 6.55], [53.85, 7.50], [54.25, 7.75], [54.25, 8.05],
+  [54.20, 8.40], [54.45, 8.35], [54.75, 8.20]
+];
+
+// How far outside GERMANY_OUTLINE coordinates still pass
+export const GERMANY_BORDER_MARGIN_KM = 10;
+
+const EARTH_RADIUS_KM = 6371;
+
+const RULES: Record<RuleName, RuleCheck> = {
+  price: facts => facts.price > 0 ? null : {
+    field: 'price',
+    message: 'price must be above 0',
+    value: facts.price
+  },
+
+  area: facts => facts.area === undefined || facts.area > 0 ? null : {
+    field: 'area',
+    message: `${facts.areaKind || 'size'} area must be above 0 m²`,
+    value: facts.area
+  },
+
+  pricePerSqm: (facts, thresholds) => {
+    if (!facts.areaKind || facts.areaKind === 'plot' || !(facts.price > 0) || !(facts.area! > 0)) {
+      return null;
+    }
+    if (facts.currency && facts.currency !== 'EUR') {
+      return null;
+    }
+    const range = thresholds.pricePerSqm[facts.transactionType];
+    const pricePerSqm = facts.price / facts.area!;
+    if (pricePerSqm >= range.min && pricePerSqm <= range.max) return null;
+    return {
+      field: 'price',
+      message: `${pricePerSqm.toFixed(2)} €/m² outside ${range.min}-${range.max} €/m² for ${facts.transactionType}`,
+      value: { price: facts.price, area: facts.area }
+    };
+  },
+
+  coordinates: facts => !facts.coordinates || isInGermany(facts.coordinates.lat, facts.coordinates.lon) ? null : {
+    field: 'coordinates',
+    message: 'coordinates outside Germany',
+    value: facts.coordinates
+  },
+
+  postcode: facts => {
+    if (facts.postcode === undefined) return null;
+    if (!/^\d{5}$/.test(facts.postcode)) {
+      return { field: 'postcode', message: 'postcode must have five digits', value: facts.postcode };
+    }
+    const number = parseInt(facts.postcode, 10);
+    return number >= 1001 && number <= 99998 ? null : {
+      field: 'postcode',
+      message: 'postcode outside the German range 01001-99998',
+      value: facts.postcode
+    };
+  },
+
+  rooms: (facts, thresholds) => facts.rooms === undefined || facts.rooms >= thresholds.minRooms ? null : {
+    field: 'rooms',
+    message: `rooms must be at least ${thresholds.minRooms}`,
+    value: facts.rooms
+  },
+
+  constructionYear: (facts, thresholds) => {
+    if (facts.constructionYear === undefined) return null;
+    const maxYear = new Date().getFullYear() + thresholds.maxYearsAhead;
+    if (facts.constructionYear >= thresholds.minConstructionYear && facts.constructionYear <= maxYear) return null;
+    return {
+      field: 'constructionYear',
+      message: `construction year outside ${thresholds.minConstructionYear}-${maxYear}`,
+      value: facts.constructionYear
+    };
+  }
+};
+
+export class PlausibilityChecker {
+  private rules: RuleName[];
+
+  constructor(private thresholds: PlausibilityThresholds) {
+    this.rules = RULE_NAMES.filter(rule => !thresholds.disabledRules.includes(rule));
+  }
+
+  /**
+   * Check a parsed listing
+   */
+  checkProperty(property: Property): RuleViolation[] {
+    return this.check(factsFromProperty(property));
+  }
+
+  /**
+   * Check a transformed listing
+   */
+  checkStandardProperty(property: StandardProperty): RuleViolation[] {
+    return this.check(factsFromStandardProperty(property));
+  }
+
+  /**
+   * Check a listing both as parsed and as transformed; a rule failing on
+   * both is reported once, for the parsed listing
+   */
+  checkListing(property: Property, standardized: StandardProperty): RuleViolation[] {
+    const violations = this.checkProperty(property);
+    const failed = new Set(violations.map(violation => violation.rule));
+    return [
+      ...violations,
+      ...this.checkStandardProperty(standardized).filter(violation => !failed.has(violation.rule))
+    ];
+  }
+
+  /**
+   * Run the enabled rules against a listing's facts
+   */
+  check(facts: ListingFacts): RuleViolation[] {
+    const violations: RuleViolation[] = [];
+    for (const rule of this.rules) {
+      const violation = RULES[rule](facts, this.thresholds);
+      if (violation) {
+        violations.push({ rule, ...violation });
+      }
+    }
+    return violations;
+  }
+}
+
+/**
+ * Rule facts of a parsed listing
+ */
+export function factsFromProperty(property: Property): ListingFacts {
+  const spec = isPropertyKind(property.propertyType) ? REAL_ESTATE_TYPES[property.propertyType] : undefined;
+  const facts: ListingFacts = {
+    transactionType: property.transactionType,
+    price: property.price,
+    currency: property.currency,
+    coordinates: property.location?.coordinates,
+    postcode: property.location?.postcode,
+    rooms: property.details?.rooms,
+    constructionYear: property.details?.constructionYear
+  };
+
+  if (spec?.areaField === 'plotArea') {
+    facts.areaKind = 'plot';
+    facts.area = property.details?.plotArea;
+  } else if (spec?.areaField === 'totalFloorSpace') {
+    facts.areaKind = 'floor';
+    facts.area = property.details?.floorSpace;
+  } else if (!spec || spec.areaField) {
+    facts.areaKind = 'living';
+    facts.area = property.details?.sqm;
+  }
+
+  return facts;
+}
+
+/**
+ * Rule facts of a transformed listing
+ *
+ * Plot area and floor space only exist in country_specific
+ * (grundstuecksflaeche, gesamtflaeche); the normalized property type says
+ * which one is the listing's size.
+ */
+export function factsFromStandardProperty(property: StandardProperty): ListingFacts {
+  const specific = property.country_specific || {};
+  const facts: ListingFacts = {
+    transactionType: property.transaction_type,
+    price: property.price,
+    currency: property.currency,
+    coordinates: property.location.coordinates,
+    postcode: property.location.postal_code,
+    rooms: property.details.rooms,
+    constructionYear: specific.baujahr
+  };
+
+  switch (property.property_type) {
+    case 'land':
+      facts.areaKind = 'plot';
+      facts.area = specific.grundstuecksflaeche;
+      break;
+    case 'office':
+    case 'retail':
+    case 'commercial':
+    case 'restaurant':
+    case 'industrial':
+      facts.areaKind = 'floor';
+      facts.area = specific.gesamtflaeche;
+      break;
+    case 'parking':
+    case 'investment':
+      break;
+    default:
+      facts.areaKind = 'living';
+      facts.area = property.details.sqm;
+  }
+
+  return facts;
+}
+
+/**
+ * Check whether a point lies inside GERMANY_OUTLINE or within
+ * GERMANY_BORDER_MARGIN_KM of it
+ */
+export function isInGermany(lat: number, lon: number): boolean {
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return false;
+
+  return isInOutline(lat, lon) || distanceToOutlineKm(lat, lon) <= GERMANY_BORDER_MARGIN_KM;
+}
+
+/**
+ * Check whether a point lies inside GERMANY_OUTLINE (ray casting)
+ */
+function isInOutline(lat: number, lon: number): boolean {
+  let inside = false;
+  for (let i = 0, j = GERMANY_OUTLINE.length - 1; i < GERMANY_OUTLINE.length; j = i++) {
+    const [latI, lonI] = GERMANY_OUTLINE[i];
+    const [latJ, lonJ] = GERMANY_OUTLINE[j];
+    if ((latI > lat) !== (latJ > lat) && lon < (lonJ - lonI) * (lat - latI) / (latJ - latI) + lonI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Distance in km from a point to the nearest edge of GERMANY_OUTLINE, on a
+ * local flat projection around the point (accurate at border distances)
+ */
+function distanceToOutlineKm(lat: number, lon: number): number {
+  const kmPerDegree = EARTH_RADIUS_KM * Math.PI / 180;
+  const kmPerLonDegree = kmPerDegree * Math.cos(lat * Math.PI / 180);
+  const project = ([pointLat, pointLon]: [number, number]): [number, number] => [
+    (pointLon - lon) * kmPerLonDegree,
+    (pointLat - lat) * kmPerDegree
+  ];
+
+  let min = Infinity;
+  for (let i = 0, j = GERMANY_OUTLINE.length - 1; i < GERMANY_OUTLINE.length; j = i++) {
+    const [x1, y1] = project(GERMANY_OUTLINE[j]);
+    const [x2, y2] = project(GERMANY_OUTLINE[i]);
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(x1 * dx + y1 * dy) / lengthSquared)) : 0;
+    min = Math.min(min, Math.hypot(x1 + t * dx, y1 + t * dy));
+  }
+  return min;
+}
+
+/**
+ * One-line summary of violations for logs
+ */
+export function describeViolations(violations: RuleViolation[]): string {
+  return violations.map(violation => `${violation.rule}: ${violation.message}`).join('; ');
+}
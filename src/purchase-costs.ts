@@ -0,0 +1,263 @@
+/**
+ * Purchase Cost Model
+ *
+ * Sale listings carry only the asking price, but buyers in Germany pay
+ * considerably more. This module extracts the cost-related fields of sale
+ * listings - buyer commission (provisionsfrei, "3,57 % inkl. MwSt."),
+ * Hausgeld, rented-out status (vermietet) and current rental income - and
+ * computes the total acquisition cost:
+ *
+ *   price + buyer commission + Grunderwerbsteuer + notary and land registry
+ *
+ * The real-estate transfer tax (Grunderwerbsteuer) rate depends on the
+ * Bundesland, which is taken from the postcode's region (Leitregion, with
+ * overrides where a region spans a state border). Notary and land-registry
+ * fees are typical percentages of the price. A commission that is not
+ * listed is left out of the total.
+ *
+ * Sale listings carry the result as Property.purchaseCosts; it travels to
+ * the Core Service in country_specific (see buildPurchaseFields). Amounts
+ * are in the listing's original currency.
+ */
+
+import { PurchaseCosts } from './shared-types';
+import { InterpretedAttributes, parseNumbers } from './attribute-parser';
+import { parseYesNo, positiveNumber, valueAt } from './rent-costs';
+
+export type Bundesland =
+  | 'Baden-Württemberg'
+  | 'Bayern'
+  | 'Berlin'
+  | 'Brandenburg'
+  | 'Bremen'
+  | 'Hamburg'
+  | 'Hessen'
+  | 'Mecklenburg-Vorpommern'
+  | 'Niedersachsen'
+  | 'Nordrhein-Westfalen'
+  | 'Rheinland-Pfalz'
+  | 'Saarland'
+  | 'Sachsen'
+  | 'Sachsen-Anhalt'
+  | 'Schleswig-Holstein'
+  | 'Thüringen';
+
+/**
+ * Grunderwerbsteuer in % of the price, by Bundesland
+ */
+export const TRANSFER_TAX_RATES: Record<Bundesland, number> = {
+  'Baden-Württemberg': 5.0,
+  'Bayern': 3.5,
+  'Berlin': 6.0,
+  'Brandenburg': 6.5,
+  'Bremen': 5.5,
+  'Hamburg': 5.5,
+  'Hessen': 6.0,
+  'Mecklenburg-Vorpommern': 6.0,
+  'Niedersachsen': 5.0,
+  'Nordrhein-Westfalen': 6.5,
+  'Rheinland-Pfalz': 5.0,
+  'Saarland': 6.5,
+  'Sachsen': 5.5,
+  'Sachsen-Anhalt': 5.0,
+  'Schleswig-Holstein': 6.5,
+  'Thüringen': 5.0
+};
+
+// Typical notary and land-registry (Grundbuch) fees in % of the price
+export const NOTARY_RATE = 1.5;
+export const LAND_REGISTRY_RATE = 0.5;
+
+const VAT_FACTOR = 1.19;
+
+// Bundesland by the first two postcode digits (predominant state)
+const POSTCODE_REGION_STATES: Record<string, Bundesland> = {
+  '01': 'Sachsen', '02': 'Sachsen', '03': 'Brandenburg', '04': 'Sachsen', '06': 'Sachsen-Anhalt',
+  '07': 'Thüringen', '08': 'Sachsen', '09': 'Sachsen',
+  '10': 'Berlin', '12': 'Berlin', '13': 'Berlin', '14': 'Brandenburg', '15': 'Brandenburg',
+  '16': 'Brandenburg', '17': 'Mecklenburg-Vorpommern', '18': 'Mecklenburg-Vorpommern', '19': 'Mecklenburg-Vorpommern',
+  '20': 'Hamburg', '21': 'Niedersachsen', '22': 'Hamburg', '23': 'Schleswig-Holstein', '24': 'Schleswig-Holstein',
+  '25': 'Schleswig-Holstein', '26': 'Niedersachsen', '27': 'Niedersachsen', '28': 'Bremen', '29': 'Niedersachsen',
+  '30': 'Niedersachsen', '31': 'Niedersachsen', '32': 'Nordrhein-Westfalen', '33': 'Nordrhein-Westfalen',
+  '34': 'Hessen', '35': 'Hessen', '36': 'Hessen', '37': 'Niedersachsen', '38': 'Niedersachsen', '39': 'Sachsen-Anhalt',
+  '40': 'Nordrhein-Westfalen', '41': 'Nordrhein-Westfalen', '42': 'Nordrhein-Westfalen', '44': 'Nordrhein-Westfalen',
+  '45': 'Nordrhein-Westfalen', '46': 'Nordrhein-Westfalen', '47': 'Nordrhein-Westfalen', '48': 'Nordrhein-Westfalen',
+  '49': 'Niedersachsen',
+  '50': 'Nordrhein-Westfalen', '51': 'Nordrhein-Westfalen', '52': 'Nordrhein-Westfalen', '53': 'Nordrhein-Westfalen',
+  '54': 'Rheinland-Pfalz', '55': 'Rheinland-Pfalz', '56': 'Rheinland-Pfalz', '57': 'Nordrhein-Westfalen',
+  '58': 'Nordrhein-Westfalen', '59': 'Nordrhein-Westfalen',
+  '60': 'Hessen', '61': 'Hessen', '63': 'Hessen', '64': 'Hessen', '65': 'Hessen', '66': 'Saarland',
+  '67': 'Rheinland-Pfalz', '68': 'Baden-Württemberg', '69': 'Baden-Württemberg',
+  '70': 'Baden-Württemberg', '71': 'Baden-Württemberg', '72': 'Baden-Württemberg', '73': 'Baden-Württemberg',
+  '74': 'Baden-Württemberg', '75': 'Baden-Württemberg', '76': 'Baden-Württemberg', '77': 'Baden-Württemberg',
+  '78': 'Baden-Württemberg', '79': 'Baden-Württemberg',
+  '80': 'Bayern', '81': 'Bayern', '82': 'Bayern', '83': 'Bayern', '84': 'Bayern', '85': 'Bayern', '86': 'Bayern',
+  '87': 'Bayern', '88': 'Baden-Württemberg', '89': 'Baden-Württemberg',
+  '90': 'Bayern', '91': 'Bayern', '92': 'Bayern', '93': 'Bayern', '94': 'Bayern', '95': 'Bayern', '96': 'Bayern',
+  '97': 'Bayern', '98': 'Thüringen', '99': 'Thüringen'
+};
+
+// Three-digit prefixes whose state differs from their region's
+const POSTCODE_PREFIX_STATES: Record<string, Bundesland> = {
+  '140': 'Berlin', '141': 'Berlin',
+  '210': 'Hamburg', '211': 'Hamburg',
+  '228': 'Schleswig-Holstein', '229': 'Schleswig-Holstein',
+  '239': 'Mecklenburg-Vorpommern',
+  '275': 'Bremen',
+  '288': 'Niedersachsen', '289': 'Niedersachsen',
+  '364': 'Thüringen', '365': 'Thüringen', '366': 'Thüringen', '367': 'Thüringen', '368': 'Thüringen', '369': 'Thüringen',
+  '388': 'Sachsen-Anhalt', '389': 'Sachsen-Anhalt',
+  '637': 'Bayern', '638': 'Bayern', '639': 'Bayern',
+  '669': 'Rheinland-Pfalz',
+  '881': 'Bayern',
+  '892': 'Bayern',
+  '979': 'Baden-Württemberg'
+};
+
+/**
+ * Commission, Hausgeld and rental fields of a realEstate object (REST API
+ * and mobile exposes)
+ */
+export function extractPurchaseCosts(realEstate: unknown): PurchaseCosts {
+  const courtage = valueAt(realEstate, 'courtage', 'courtage');
+  const hasCourtage = valueAt(realEstate, 'courtage', 'hasCourtage');
+  const costs: PurchaseCosts = {
+    ...parseCommission(
+      typeof courtage === 'string' ? courtage : undefined,
+      typeof hasCourtage === 'string' ? hasCourtage : undefined
+    ),
+    hausgeld: positiveNumber(valueAt(realEstate, 'serviceCharge')),
+    rented: parseYesNo(valueAt(realEstate, 'rented')),
+    rentalIncome: positiveNumber(valueAt(realEstate, 'rentalIncome'))
+  };
+  return dropUnset(costs);
+}
+
+/**
+ * Commission and Hausgeld of a mobile search result item
+ */
+export function purchaseCostsFromAttributes(attributes: InterpretedAttributes, tags: string[] = []): PurchaseCosts {
+  const costs: PurchaseCosts = {};
+
+  if (tags.some(tag => /provisionsfrei/i.test(tag))) {
+    costs.commissionFree = true;
+  }
+  for (const attribute of attributes.extraCosts) {
+    const label = attribute.label.toLowerCase();
+    if (/provision/.test(label)) {
+      Object.assign(costs, parseCommission(attribute.value));
+    } else if (/hausgeld/.test(label)) {
+      costs.hausgeld = attribute.amount;
+    }
+  }
+  if (tags.some(tag => /vermietet/i.test(tag))) {
+    costs.rented = true;
+  }
+
+  return dropUnset(costs);
+}
+
+/**
+ * Parse a buyer commission ("3,57 % inkl. MwSt.", "provisionsfrei", "5.000 €")
+ *
+ * @param hasCourtage IS24 YES/NO flag; NO means commission-free
+ */
+export function parseCommission(
+  text?: string,
+  hasCourtage?: string
+): Pick<PurchaseCosts, 'commissionFree' | 'commissionRate' | 'commissionAmount' | 'commissionText'> {
+  if (hasCourtage?.toUpperCase() === 'NO') {
+    return { commissionFree: true, ...(text && { commissionText: text }) };
+  }
+  if (!text || !text.trim()) {
+    return {};
+  }
+
+  const commissionText = text.trim();
+  const lower = commissionText.toLowerCase();
+  if (/provisionsfrei|keine|entf(ä|ae)llt|^0(,0+)?\s*%/.test(lower)) {
+    return { commissionFree: true, commissionText };
+  }
+
+  const numbers = parseNumbers(commissionText);
+  if (numbers.length === 0) {
+    return { commissionText };
+  }
+
+  // Rates are stated including VAT unless marked otherwise
+  const excludesVat = /zzgl|zuzügl|netto|exkl/.test(lower);
+  if (/%/.test(lower)) {
+    const rate = excludesVat ? numbers[0] * VAT_FACTOR : numbers[0];
+    return { commissionRate: Math.round(rate * 100) / 100, commissionText };
+  }
+  const amount = excludesVat ? numbers[0] * VAT_FACTOR : numbers[0];
+  return { commissionAmount: Math.round(amount * 100) / 100, commissionText };
+}
+
+/**
+ * Bundesland of a postcode
+ */
+export function stateFromPostcode(postcode?: string): Bundesland | undefined {
+  if (!postcode || !/^\d{5}$/.test(postcode)) return undefined;
+  return POSTCODE_PREFIX_STATES[postcode.slice(0, 3)] || POSTCODE_REGION_STATES[postcode.slice(0, 2)];
+}
+
+/**
+ * Add the Bundesland, transfer tax, notary fees and total acquisition cost
+ * for a price and postcode (city names of the city states are used when
+ * the postcode is missing)
+ */
+export function computeAcquisitionCosts(price: number, costs: PurchaseCosts, postcode?: string, city?: string): PurchaseCosts {
+  const state = stateFromPostcode(postcode) ||
+    (['Berlin', 'Hamburg', 'Bremen'].includes(city || '') ? city as Bundesland : undefined);
+  if (!state || !(price > 0)) {
+    return costs;
+  }
+
+  const commission = costs.commissionFree ? 0
+    : costs.commissionRate !== undefined ? price * costs.commissionRate / 100
+    : costs.commissionAmount ?? 0;
+  const transferTax = price * TRANSFER_TAX_RATES[state] / 100;
+  const notaryFees = price * (NOTARY_RATE + LAND_REGISTRY_RATE) / 100;
+
+  return dropUnset({
+    ...costs,
+    state,
+    transferTaxRate: TRANSFER_TAX_RATES[state],
+    transferTax: Math.round(transferTax),
+    notaryFees: Math.round(notaryFees),
+    commission: costs.commissionFree || costs.commissionRate !== undefined || costs.commissionAmount !== undefined
+      ? Math.round(commission)
+      : undefined,
+    totalCost: Math.round(price + commission + transferTax + notaryFees)
+  });
+}
+
+/**
+ * Germany-specific purchase cost fields for a listing's country_specific
+ */
+export function buildPurchaseFields(costs: PurchaseCosts): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+
+  if (costs.commissionFree !== undefined) fields.provisionsfrei = costs.commissionFree;
+  if (costs.commissionText !== undefined) fields.kaeuferprovision = costs.commissionText;
+  if (costs.commissionRate !== undefined) fields.kaeuferprovision_prozent = costs.commissionRate;
+  if (costs.commission !== undefined) fields.kaeuferprovision_betrag = costs.commission;
+  if (costs.hausgeld !== undefined) fields.hausgeld = costs.hausgeld;
+  if (costs.rented !== undefined) fields.vermietet = costs.rented;
+  if (costs.rentalIncome !== undefined) fields.mieteinnahmen = costs.rentalIncome;
+  if (costs.state !== undefined) fields.bundesland = costs.state;
+  if (costs.transferTaxRate !== undefined) fields.grunderwerbsteuer_satz = costs.transferTaxRate;
+  if (costs.transferTax !== undefined) fields.grunderwerbsteuer = costs.transferTax;
+  if (costs.notaryFees !== undefined) fields.notar_grundbuch_kosten = costs.notaryFees;
+  if (costs.totalCost !== undefined) fields.gesamtkosten_erwerb = costs.totalCost;
+
+  return fields;
+}
+
+function dropUnset(costs: PurchaseCosts): PurchaseCosts {
+  for (const key of Object.keys(costs) as Array<keyof PurchaseCosts>) {
+    if (costs[key] === undefined) delete costs[key];
+  }
+  return costs;
+}
@@ -0,0 +1,126 @@
+/**
+ * Quarantine Store
+ *
+ * Listings that fail a plausibility rule (see plausibility-rules.ts) are not
+ * sent to the Core Service. They are kept here with the failed rules and the
+ * transformed listing, so parser problems can be inspected (queue-stats
+ * quarantine) without digging through logs. A listing that passes on a
+ * later crawl is released again.
+ *
+ * Entries are kept in one portal-level Redis hash (listing ID -> JSON), so
+ * they survive runs.
+ */
+
+import Redis from 'ioredis';
+import { StandardProperty } from './transformer';
+import { RuleName, RuleViolation } from './plausibility-rules';
+import { createLogger } from './logger';
+
+const logger = createLogger('QuarantineStore');
+
+/**
+ * A quarantined listing
+ */
+export interface QuarantineEntry {
+  id: string;
+  violations: RuleViolation[];
+  property: StandardProperty;
+  runId?: string;
+  firstQuarantinedAt: string;
+  lastQuarantinedAt: string;
+  times: number;            // Crawls the listing was quarantined in
+}
+
+export class QuarantineStore {
+  private redis: Redis;
+  private quarantineKey: string;
+
+  constructor(portal: string, redisUrl?: string) {
+    this.redis = new Redis(redisUrl || process.env.REDIS_URL || 'redis://localhost:6379', {
+      maxRetriesPerRequest: 3
+    });
+    this.quarantineKey = `landomo:${portal}:quarantine`;
+
+    this.redis.on('error', (err) => {
+      logger.error('Redis error:', err);
+    });
+  }
+
+  /**
+   * Quarantine a listing, keeping when it was first quarantined
+   */
+  async add(id: string, violations: RuleViolation[], property: StandardProperty, runId?: string): Promise<void> {
+    const existing = await this.get(id);
+    const now = new Date().toISOString();
+
+    const entry: QuarantineEntry = {
+      id,
+      violations,
+      property,
+      runId,
+      firstQuarantinedAt: existing?.firstQuarantinedAt || now,
+      lastQuarantinedAt: now,
+      times: (existing?.times || 0) + 1
+    };
+
+    await this.redis.hset(this.quarantineKey, id, JSON.stringify(entry));
+  }
+
+  /**
+   * Release a listing from quarantine (no-op when it is not quarantined)
+   *
+   * Returns true when an entry was removed.
+   */
+  async release(id: string): Promise<boolean> {
+    return (await this.redis.hdel(this.quarantineKey, id)) > 0;
+  }
+
+  /**
+   * Get the quarantine entry of a listing
+   */
+  async get(id: string): Promise<QuarantineEntry | null> {
+    const value = await this.redis.hget(this.quarantineKey, id);
+    return value ? JSON.parse(value) as QuarantineEntry : null;
+  }
+
+  /**
+   * Get quarantined listings, most recent first, optionally only those
+   * failing a rule
+   */
+  async list(rule?: RuleName): Promise<QuarantineEntry[]> {
+    const values = await this.redis.hvals(this.quarantineKey);
+
+    return values
+      .map(value => JSON.parse(value) as QuarantineEntry)
+      .filter(entry => !rule || entry.violations.some(violation => violation.rule === rule))
+      .sort((a, b) => b.lastQuarantinedAt.localeCompare(a.lastQuarantinedAt));
+  }
+
+  /**
+   * Count quarantined listings per failed rule (a listing failing several
+   * rules counts for each)
+   */
+  async getCounts(): Promise<Partial<Record<RuleName, number>>> {
+    const counts: Partial<Record<RuleName, number>> = {};
+    for (const entry of await this.list()) {
+      for (const rule of new Set(entry.violations.map(violation => violation.rule))) {
+        counts[rule] = (counts[rule] || 0) + 1;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Number of quarantined listings
+   */
+  async count(): Promise<number> {
+    return await this.redis.hlen(this.quarantineKey);
+  }
+
+  /**
+   * Close Redis connection
+   */
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
@@ -7,10 +7,31 @@
  *   npm run queue:stats         # Show queue statistics
  *   npm run queue:clear         # Clear all queue data
  *   npm run queue:retry-failed  # Retry all failed listings
+ *   npm run queue:stats -- reap # Return stale in-flight listings to the queue
+ *   npm run queue:stats -- workers [--prune]         # Live worker table
+ *   npm run queue:stats -- delisted [limit]          # Listings removed from IS24
+ *   npm run queue:stats -- schema-drift              # Unknown response fields, types, labels
+ *   npm run queue:stats -- quarantine [rule]         # Listings held back by plausibility rules
+ *   npm run queue:stats -- inspect-quarantine <id>   # Show one quarantined listing
+ *
+ * Dead-letter commands:
+ *   npm run queue:stats -- dead-letters [category]   # List dead-lettered listings
+ *   npm run queue:stats -- inspect <id>              # Show one dead-letter entry
+ *   npm run queue:stats -- replay [--category <c>] [--since <iso>] [--ids <a,b>]
+ *
+ * Run commands (set RUN_ID to target a run other than the current one):
+ *   npm run queue:stats -- runs [limit]              # List recent runs
+ *   npm run queue:stats -- compare-runs <base> <other>
+ *   npm run queue:stats -- gc-runs [--keep <n>]      # Delete old runs (default: keep 7), prune known IDs
  */
 
-import { RedisQueue } from './redis-queue';
+import { RedisQueue, DeadLetterFilter } from './redis-queue';
+import { FAILURE_CATEGORIES, FailureCategory } from './errors';
 import { createLogger } from './logger';
+import { config } from './config';
+import { WorkerRegistry } from './worker-registry';
+import { QuarantineStore } from './quarantine-store';
+import { RULE_NAMES, RuleName } from './plausibility-rules';
 
 const logger = createLogger('QueueStats');
 
@@ -22,11 +43,43 @@ async function showStats() {
   const progress = await queue.getProgress();
 
   console.log('\n=== QUEUE STATISTICS ===\n');
+  console.log(`Run:               ${queue.getRunId() || 'legacy (no run)'}`);
   console.log(`Total Discovered:  ${stats.totalDiscovered.toLocaleString()}`);
   console.log(`Processed:         ${stats.processedCount.toLocaleString()} (${progress.toFixed(2)}%)`);
   console.log(`Remaining:         ${stats.remaining.toLocaleString()}`);
   console.log(`Failed:            ${stats.failedCount.toLocaleString()}`);
+
+  const deadLetterCounts = await queue.getDeadLetterCounts();
+  for (const [category, count] of Object.entries(deadLetterCounts)) {
+    console.log(`  - ${category.padEnd(15)} ${count!.toLocaleString()}`);
+  }
+
   console.log(`Queue Depth:       ${stats.queueDepth.toLocaleString()}`);
+  console.log(`In Flight:         ${stats.inFlightCount.toLocaleString()}`);
+  console.log(`Delayed Retries:   ${stats.delayedCount.toLocaleString()}`);
+
+  for (const report of await queue.getSchemaDrift()) {
+    const unknowns = [report.unknownFields, report.unknownItemTypes, report.unknownLabels]
+      .map(counts => Object.keys(counts).length);
+    console.log(
+      `Schema (${report.api}):`.padEnd(19) +
+      `${report.listings.toLocaleString()}/${report.items.toLocaleString()} listings parsed, ` +
+      `${report.driftedPages} drifted pages, unknown fields/types/labels ${unknowns.join('/')}`
+    );
+    if (report.lastDriftReason) {
+      console.log(`  - last drift      ${report.lastDriftAt}: ${report.lastDriftReason}`);
+    }
+  }
+
+  const quarantine = new QuarantineStore('immobilienscout24');
+  const quarantined = await quarantine.count();
+  if (quarantined > 0) {
+    console.log(`Quarantined:       ${quarantined.toLocaleString()} (all runs)`);
+    for (const [rule, count] of Object.entries(await quarantine.getCounts())) {
+      console.log(`  - ${rule.padEnd(15)} ${count!.toLocaleString()}`);
+    }
+  }
+  await quarantine.close();
 
   if (stats.startedAt) {
     const startTime = new Date(stats.startedAt);
@@ -107,6 +160,311 @@ async function showFailed() {
   await queue.close();
 }
 
+async function reapStale() {
+  const queue = new RedisQueue('immobilienscout24');
+  await queue.initialize();
+
+  const reaped = await queue.reapStaleClaims(config.queue.visibilityTimeout);
+  console.log(`\n✅ Returned ${reaped} stale in-flight listings to the queue\n`);
+
+  await queue.close();
+}
+
+async function showDeadLetters(category?: string) {
+  if (category && !FAILURE_CATEGORIES.includes(category as FailureCategory)) {
+    console.log(`Unknown category: ${category}`);
+    console.log(`Available categories: ${FAILURE_CATEGORIES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const queue = new RedisQueue('immobilienscout24');
+  await queue.initialize();
+
+  const entries = await queue.getDeadLetters({ category: category as FailureCategory | undefined });
+
+  console.log(`\n=== DEAD LETTERS${category ? ` (${category})` : ''} (${entries.length}) ===\n`);
+
+  if (entries.length === 0) {
+    console.log('No dead-lettered listings\n');
+  } else {
+    for (const entry of entries.slice(0, 50)) {
+      const status = entry.statusCode ? ` [${entry.statusCode}]` : '';
+      console.log(
+        `  ${entry.id.padEnd(20)} ${entry.category.padEnd(14)} attempts=${entry.attempts}` +
+        ` last=${entry.lastFailedAt}${status}  ${entry.error.slice(0, 80)}`
+      );
+    }
+    if (entries.length > 50) {
+      console.log(`  ... and ${entries.length - 50} more`);
+    }
+    console.log('');
+  }
+
+  await queue.close();
+}
+
+async function inspectDeadLetter(id?: string) {
+  if (!id) {
+    console.log('Usage: inspect <id>');
+    process.exit(1);
+  }
+
+  const queue = new RedisQueue('immobilienscout24');
+  await queue.initialize();
+
+  const entry = await queue.getDeadLetter(id);
+  if (!entry) {
+    console.log(`\nNo dead-letter entry for ${id}\n`);
+  } else {
+    console.log(`\n=== DEAD LETTER ${id} ===\n`);
+    console.log(JSON.stringify(entry, null, 2));
+    console.log('');
+  }
+
+  await queue.close();
+}
+
+async function replayDeadLetters(args: string[]) {
+  const filter: DeadLetterFilter = {};
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--category':
+        filter.category = args[++i] as FailureCategory;
+        break;
+      case '--since':
+        filter.since = new Date(args[++i]).toISOString();
+        break;
+      case '--ids':
+        filter.ids = args[++i].split(',').map(id => id.trim()).filter(Boolean);
+        break;
+    }
+  }
+
+  const queue = new RedisQueue('immobilienscout24');
+  await queue.initialize();
+
+  const replayed = await queue.replayDeadLetters(filter);
+  console.log(`\n✅ Re-queued ${replayed} dead-lettered listings\n`);
+
+  await queue.close();
+}
+
+async function showRuns(limitArg?: string) {
+  const queue = new RedisQueue('immobilienscout24');
+  await queue.initialize();
+
+  const runs = await queue.listRuns(parseInt(limitArg || '', 10) || 20);
+
+  console.log(`\n=== RUNS (${runs.length}) ===\n`);
+
+  if (runs.length === 0) {
+    console.log('No runs recorded\n');
+  } else {
+    for (const run of runs) {
+      const current = run.runId === queue.getRunId() ? ' *' : '';
+      const counts = run.totalDiscovered !== undefined
+        ? ` discovered=${run.totalDiscovered} processed=${run.processedCount ?? '-'} failed=${run.failedCount ?? '-'}`
+        : '';
+      console.log(
+        `  ${run.runId}${current}  ${run.status.padEnd(9)} started=${run.startedAt}` +
+        ` finished=${run.finishedAt || '-'}${counts}`
+      );
+    }
+    console.log('');
+  }
+
+  await queue.close();
+}
+
+async function showDelisted(limitArg?: string) {
+  const queue = new RedisQueue('immobilienscout24');
+  await queue.initialize();
+
+  const total = await queue.getRemovedCount();
+  const removed = await queue.getRemovedListings(parseInt(limitArg || '', 10) || 50);
+
+  console.log(`\n=== REMOVED LISTINGS (${total.toLocaleString()}) ===\n`);
+
+  if (removed.length === 0) {
+    console.log('No removed listings recorded\n');
+  } else {
+    for (const entry of removed) {
+      console.log(`  ${entry.id.padEnd(20)} removed=${entry.removedAt}`);
+    }
+    console.log('');
+  }
+
+  const pending = await queue.getPendingDeactivations();
+  if (pending.length > 0) {
+    console.log(`${pending.length} deactivations not yet sent to Core Service (retried next run)\n`);
+  }
+
+  await queue.close();
+}
+
+async function showQuarantine(rule?: string) {
+  if (rule && !RULE_NAMES.includes(rule as RuleName)) {
+    console.log(`Unknown rule: ${rule}`);
+    console.log(`Available rules: ${RULE_NAMES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const quarantine = new QuarantineStore('immobilienscout24');
+  const entries = await quarantine.list(rule as RuleName | undefined);
+
+  console.log(`\n=== QUARANTINE${rule ? ` (${rule})` : ''} (${entries.length}) ===\n`);
+
+  if (entries.length === 0) {
+    console.log('No quarantined listings\n');
+  } else {
+    for (const entry of entries.slice(0, 50)) {
+      const reasons = entry.violations.map(violation => `${violation.rule}: ${violation.message}`).join('; ');
+      console.log(`  ${entry.id.padEnd(20)} times=${entry.times} last=${entry.lastQuarantinedAt}  ${reasons.slice(0, 100)}`);
+    }
+    if (entries.length > 50) {
+      console.log(`  ... and ${entries.length - 50} more`);
+    }
+    console.log('');
+  }
+
+  await quarantine.close();
+}
+
+async function inspectQuarantine(id?: string) {
+  if (!id) {
+    console.log('Usage: inspect-quarantine <id>');
+    process.exit(1);
+  }
+
+  const quarantine = new QuarantineStore('immobilienscout24');
+  const entry = await quarantine.get(id);
+  if (!entry) {
+    console.log(`\nNo quarantine entry for ${id}\n`);
+  } else {
+    console.log(`\n=== QUARANTINED ${id} ===\n`);
+    console.log(JSON.stringify(entry, null, 2));
+    console.log('');
+  }
+
+  await quarantine.close();
+}
+
+async function showSchemaDrift() {
+  const queue = new RedisQueue('immobilienscout24');
+  await queue.initialize();
+
+  const reports = await queue.getSchemaDrift();
+
+  console.log(`\n=== SCHEMA DRIFT (run ${queue.getRunId() || 'legacy'}) ===\n`);
+
+  if (reports.length === 0) {
+    console.log('No schema-drift report recorded\n');
+  }
+
+  for (const report of reports) {
+    console.log(`${report.api} API: ${report.responses} responses, ${report.listings}/${report.items} listings parsed`);
+    console.log(`  Drifted pages:  ${report.driftedPages}${report.lastDriftReason ? ` (last: ${report.lastDriftReason})` : ''}`);
+    console.log(`  Missing fields: ${Object.entries(report.missingFields).map(([field, count]) => `${field}=${count}`).join(' ')}`);
+
+    const sections: Array<[string, Record<string, number>]> = [
+      ['Unknown fields', report.unknownFields],
+      ['Unknown types', report.unknownItemTypes],
+      ['Unknown labels', report.unknownLabels]
+    ];
+    for (const [title, counts] of sections) {
+      for (const [key, count] of Object.entries(counts)) {
+        console.log(`  ${title.padEnd(15)} ${key} (${count}x)`);
+      }
+    }
+    console.log('');
+  }
+
+  await queue.close();
+}
+
+async function compareRuns(baseRunId?: string, otherRunId?: string) {
+  if (!baseRunId || !otherRunId) {
+    console.log('Usage: compare-runs <base-run-id> <other-run-id>');
+    process.exit(1);
+  }
+
+  const queue = new RedisQueue('immobilienscout24');
+  await queue.initialize();
+
+  const comparison = await queue.compareRuns(baseRunId, otherRunId);
+
+  console.log(`\n=== RUN COMPARISON: ${baseRunId} -> ${otherRunId} ===\n`);
+  console.log(`Discovered (base):  ${comparison.baseCount.toLocaleString()}`);
+  console.log(`Discovered (other): ${comparison.otherCount.toLocaleString()}`);
+  console.log(`New in other:       ${comparison.newIds.toLocaleString()}`);
+  console.log(`Missing in other:   ${comparison.missingIds.toLocaleString()}\n`);
+
+  await queue.close();
+}
+
+async function gcRuns(args: string[]) {
+  const keepIndex = args.indexOf('--keep');
+  const keep = keepIndex >= 0 ? parseInt(args[keepIndex + 1], 10) : 7;
+
+  if (Number.isNaN(keep) || keep < 1) {
+    console.log('Usage: gc-runs [--keep <n>] (n >= 1)');
+    process.exit(1);
+  }
+
+  const queue = new RedisQueue('immobilienscout24');
+  await queue.initialize();
+
+  const removed = await queue.gcRuns(keep);
+  console.log(`\n✅ Deleted ${removed.length} old runs${removed.length > 0 ? `: ${removed.join(', ')}` : ''}\n`);
+
+  await queue.close();
+}
+
+async function showWorkers(args: string[]) {
+  const registry = new WorkerRegistry('immobilienscout24', config.workers.heartbeatInterval);
+
+  if (args.includes('--prune')) {
+    const pruned = await registry.pruneDead();
+    console.log(`\nPruned ${pruned.length} dead workers${pruned.length > 0 ? `: ${pruned.join(', ')}` : ''}`);
+  }
+
+  const workers = await registry.listWorkers();
+  const alive = workers.filter(w => w.health === 'alive').length;
+
+  console.log(`\n=== WORKERS (${alive} alive / ${workers.length} registered) ===\n`);
+
+  if (workers.length === 0) {
+    console.log('No workers registered\n');
+  } else {
+    console.log(
+      `  ${'WORKER'.padEnd(20)} ${'HEALTH'.padEnd(7)} ${'STATUS'.padEnd(11)} ${'CURRENT'.padEnd(20)}` +
+      ` ${'PROCESSED'.padStart(9)} ${'FAILED'.padStart(7)} ${'RATE/MIN'.padStart(9)}  LAST HEARTBEAT`
+    );
+
+    for (const { workerId, state, health } of workers) {
+      const flag = health === 'alive' ? '' : ' ⚠️';
+
+      if (!state) {
+        console.log(`  ${workerId.padEnd(20)} ${health.padEnd(7)}${flag}`);
+        continue;
+      }
+
+      const elapsedMinutes = (Date.now() - new Date(state.startedAt).getTime()) / 1000 / 60;
+      const rate = elapsedMinutes > 0 ? state.processedCount / elapsedMinutes : 0;
+
+      console.log(
+        `  ${workerId.padEnd(20)} ${health.padEnd(7)} ${state.status.padEnd(11)} ${(state.currentId || '-').padEnd(20)}` +
+        ` ${String(state.processedCount).padStart(9)} ${String(state.failedCount).padStart(7)}` +
+        ` ${rate.toFixed(2).padStart(9)}  ${state.lastHeartbeat}${flag}`
+      );
+    }
+    console.log('');
+  }
+
+  await registry.close();
+}
+
 // Main execution
 async function main() {
   const command = process.argv[2] || 'stats';
@@ -125,9 +483,45 @@ async function main() {
       case 'show-failed':
         await showFailed();
         break;
+      case 'reap':
+        await reapStale();
+        break;
+      case 'dead-letters':
+        await showDeadLetters(process.argv[3]);
+        break;
+      case 'inspect':
+        await inspectDeadLetter(process.argv[3]);
+        break;
+      case 'replay':
+        await replayDeadLetters(process.argv.slice(3));
+        break;
+      case 'workers':
+        await showWorkers(process.argv.slice(3));
+        break;
+      case 'delisted':
+        await showDelisted(process.argv[3]);
+        break;
+      case 'schema-drift':
+        await showSchemaDrift();
+        break;
+      case 'quarantine':
+        await showQuarantine(process.argv[3]);
+        break;
+      case 'inspect-quarantine':
+        await inspectQuarantine(process.argv[3]);
+        break;
+      case 'runs':
+        await showRuns(process.argv[3]);
+        break;
+      case 'compare-runs':
+        await compareRuns(process.argv[3], process.argv[4]);
+        break;
+      case 'gc-runs':
+        await gcRuns(process.argv.slice(3));
+        break;
       default:
         console.log(`Unknown command: ${command}`);
-        console.log('Available commands: stats, clear, retry-failed, show-failed');
+        console.log('Available commands: stats, clear, retry-failed, show-failed, reap, workers, dead-letters, inspect, replay, delisted, schema-drift, quarantine, inspect-quarantine, runs, compare-runs, gc-runs');
         process.exit(1);
     }
   } catch (error) {
@@ -0,0 +1,128 @@
+/**
+ * Cluster-wide Rate Limiter
+ *
+ * Redis-backed token bucket shared by the coordinator and all workers, so the
+ * total request rate against IS24 stays fixed regardless of replica count.
+ *
+ * The bucket refill and token take happen in a single Lua script using the
+ * Redis server clock, so hosts with skewed clocks still share one budget.
+ */
+
+import Redis from 'ioredis';
+import { RateLimitConfig } from './api-types';
+import { createLogger } from './logger';
+
+const logger = createLogger('RateLimiter');
+
+/**
+ * Anything that hands out permission for one HTTP request
+ */
+export interface RateLimiter {
+  acquire(): Promise<void>;
+}
+
+/**
+ * Token bucket script
+ *
+ * KEYS[1] = bucket hash
+ * ARGV[1] = refill rate (tokens per second)
+ * ARGV[2] = bucket size (burst)
+ *
+ * Returns 0 when a token was taken, otherwise milliseconds to wait.
+ */
+const TOKEN_BUCKET_SCRIPT = `
+local rate = tonumber(ARGV[1]) / 1000
+local burst = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+local tokens = tonumber(redis.call('HGET', KEYS[1], 'tokens'))
+local ts = tonumber(redis.call('HGET', KEYS[1], 'ts'))
+if tokens == nil or ts == nil then
+  tokens = burst
+  ts = now
+end
+
+tokens = math.min(burst, tokens + math.max(0, now - ts) * rate)
+
+local wait = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+else
+  wait = math.ceil((1 - tokens) / rate)
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(burst / rate) + 60000)
+return wait
+`;
+
+/**
+ * Redis token bucket rate limiter
+ */
+export class RedisRateLimiter implements RateLimiter {
+  private redis: Redis;
+  private key: string;
+  private requestsPerSecond: number;
+  private burstSize: number;
+
+  constructor(
+    portal: string,
+    bucket: string,
+    rateLimit: RateLimitConfig,
+    redisUrl?: string
+  ) {
+    this.redis = new Redis(redisUrl || process.env.REDIS_URL || 'redis://localhost:6379', {
+      maxRetriesPerRequest: 3
+    });
+    this.key = `landomo:${portal}:ratelimit:${bucket}`;
+    this.requestsPerSecond = rateLimit.requestsPerSecond;
+    this.burstSize = Math.max(1, rateLimit.burstSize || 1);
+
+    this.redis.on('error', (err) => {
+      logger.error('Redis error:', err);
+    });
+  }
+
+  /**
+   * Wait until a token is available, then take it
+   */
+  async acquire(): Promise<void> {
+    while (true) {
+      let wait: number;
+
+      try {
+        wait = Number(await this.redis.eval(
+          TOKEN_BUCKET_SCRIPT,
+          1,
+          this.key,
+          this.requestsPerSecond,
+          this.burstSize
+        ));
+      } catch (error) {
+        // Fall back to local pacing so a Redis outage does not stop scraping
+        logger.warn(`Token bucket unavailable, pacing locally: ${error}`);
+        await this.sleep(Math.ceil(1000 / this.requestsPerSecond));
+        return;
+      }
+
+      if (wait <= 0) {
+        return;
+      }
+
+      logger.debug(`Rate limited, waiting ${wait}ms`);
+      await this.sleep(wait);
+    }
+  }
+
+  /**
+   * Close Redis connection
+   */
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
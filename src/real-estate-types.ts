@@ -0,0 +1,362 @@
+/**
+ * Real Estate Types
+ *
+ * Catalogue of the IS24 real-estate types we crawl. Each kind maps to its
+ * mobile API type (lowercase) and REST API type per transaction, the range
+ * filters it supports, and the type-specific expose fields kept on the
+ * property.
+ *
+ * Commercial types (office, retail, gastronomy, industrial) have one IS24
+ * type for both sale and rent and are narrowed with `commercializationtype`.
+ * New-build projects are apartment searches restricted with `newbuilding`;
+ * result list items flagged as projects are parsed as `new_build`.
+ * Type names and fields beyond apartment/house follow the REST API schema
+ * and have not yet been confirmed against live mobile API responses; those
+ * kinds are marked unconfirmed and search plans reject them until they are
+ * (see validateSearchPlan).
+ */
+
+import { RealEstateType } from './api-types';
+
+export type PropertyKind =
+  | 'apartment'
+  | 'house'
+  | 'land'          // Grundstück
+  | 'garage'        // Garage / Stellplatz
+  | 'office'        // Büro / Praxis
+  | 'retail'        // Einzelhandel
+  | 'gastronomy'    // Gastronomie / Hotel
+  | 'industrial'    // Halle / Produktion
+  | 'investment'    // Anlageobjekt
+  | 'short_term'    // Wohnen auf Zeit
+  | 'flat_share'    // WG-Zimmer
+  | 'new_build';    // Neubauprojekt
+
+export type TransactionKind = 'sale' | 'rent';
+
+/**
+ * Range filter selecting the size of a listing
+ */
+export type AreaFilterParam = 'livingspace' | 'plotarea' | 'totalfloorspace';
+
+/**
+ * Extra search parameters some kinds need on top of the type name
+ */
+export interface TypeSearchParams {
+  commercializationtype?: 'buy' | 'rent';
+  newbuilding?: boolean;
+}
+
+export interface RealEstateTypeSpec {
+  label: string;                                   // German category name
+  confirmed: boolean;                              // Type names checked against live responses
+  mobile: Partial<Record<TransactionKind, string>>;
+  rest: Partial<Record<TransactionKind, RealEstateType>>;
+  params?: Partial<Record<TransactionKind, TypeSearchParams>>;
+  areaFilter?: AreaFilterParam;                    // Size filter (none: price only)
+  hasRooms: boolean;                               // Supports numberofrooms
+  areaField?: 'livingSpace' | 'plotArea' | 'totalFloorSpace' | 'roomSize';
+  fields: string[];                                // Expose fields copied to metadata
+}
+
+const COMMERCIAL_PARAMS: Partial<Record<TransactionKind, TypeSearchParams>> = {
+  sale: { commercializationtype: 'buy' },
+  rent: { commercializationtype: 'rent' }
+};
+
+const COMMERCIAL_FIELDS = ['totalFloorSpace', 'netFloorSpace', 'minDivisible', 'numberOfParkingSpaces'];
+
+export const REAL_ESTATE_TYPES: Record<PropertyKind, RealEstateTypeSpec> = {
+  apartment: {
+    label: 'Wohnung',
+    confirmed: true,
+    mobile: { sale: 'apartmentbuy', rent: 'apartmentrent' },
+    rest: { sale: RealEstateType.APARTMENT_BUY, rent: RealEstateType.APARTMENT_RENT },
+    areaFilter: 'livingspace',
+    hasRooms: true,
+    areaField: 'livingSpace',
+    fields: ['apartmentType', 'newlyConst']
+  },
+  house: {
+    label: 'Haus',
+    confirmed: true,
+    mobile: { sale: 'housebuy', rent: 'houserent' },
+    rest: { sale: RealEstateType.HOUSE_BUY, rent: RealEstateType.HOUSE_RENT },
+    areaFilter: 'livingspace',
+    hasRooms: true,
+    areaField: 'livingSpace',
+    fields: ['buildingType', 'plotArea']
+  },
+  land: {
+    label: 'Grundstück',
+    confirmed: false,
+    mobile: { sale: 'livingbuysite', rent: 'livingrentsite' },
+    rest: { sale: RealEstateType.LIVING_BUY_SITE, rent: RealEstateType.LIVING_RENT_SITE },
+    areaFilter: 'plotarea',
+    hasRooms: false,
+    areaField: 'plotArea',
+    fields: [
+      'plotArea', 'minDivisible', 'siteDevelopmentType', 'siteConstructibleType',
+      'buildingPermission', 'shortTermConstructible', 'grz', 'gfz', 'leaseInterval'
+    ]
+  },
+  garage: {
+    label: 'Garage / Stellplatz',
+    confirmed: false,
+    mobile: { sale: 'garagebuy', rent: 'garagerent' },
+    rest: { sale: RealEstateType.GARAGE_BUY, rent: RealEstateType.GARAGE_RENT },
+    hasRooms: false,
+    fields: ['garageType', 'lengthGarage', 'widthGarage', 'heightGarage', 'numberOfParkingSpaces']
+  },
+  office: {
+    label: 'Büro / Praxis',
+    confirmed: false,
+    mobile: { sale: 'office', rent: 'office' },
+    rest: { sale: RealEstateType.OFFICE, rent: RealEstateType.OFFICE },
+    params: COMMERCIAL_PARAMS,
+    areaFilter: 'totalfloorspace',
+    hasRooms: false,
+    areaField: 'totalFloorSpace',
+    fields: ['officeType', ...COMMERCIAL_FIELDS, 'airConditioning', 'lanCables', 'hasCanteen']
+  },
+  retail: {
+    label: 'Einzelhandel',
+    confirmed: false,
+    mobile: { sale: 'store', rent: 'store' },
+    rest: { sale: RealEstateType.STORE, rent: RealEstateType.STORE },
+    params: COMMERCIAL_PARAMS,
+    areaFilter: 'totalfloorspace',
+    hasRooms: false,
+    areaField: 'totalFloorSpace',
+    fields: ['storeType', ...COMMERCIAL_FIELDS, 'shopWindowLength', 'locationClassificationType']
+  },
+  gastronomy: {
+    label: 'Gastronomie / Hotel',
+    confirmed: false,
+    mobile: { sale: 'gastronomy', rent: 'gastronomy' },
+    rest: { sale: RealEstateType.GASTRONOMY, rent: RealEstateType.GASTRONOMY },
+    params: COMMERCIAL_PARAMS,
+    areaFilter: 'totalfloorspace',
+    hasRooms: false,
+    areaField: 'totalFloorSpace',
+    fields: ['gastronomyType', ...COMMERCIAL_FIELDS, 'numberOfSeats', 'numberOfBeds']
+  },
+  industrial: {
+    label: 'Halle / Produktion',
+    confirmed: false,
+    mobile: { sale: 'industry', rent: 'industry' },
+    rest: { sale: RealEstateType.INDUSTRY, rent: RealEstateType.INDUSTRY },
+    params: COMMERCIAL_PARAMS,
+    areaFilter: 'totalfloorspace',
+    hasRooms: false,
+    areaField: 'totalFloorSpace',
+    fields: ['industryType', ...COMMERCIAL_FIELDS, 'hallHeight', 'floorLoad', 'ramp', 'autoLift', 'craneRunway']
+  },
+  investment: {
+    label: 'Anlageobjekt',
+    confirmed: false,
+    mobile: { sale: 'investment' },
+    rest: { sale: RealEstateType.INVESTMENT },
+    hasRooms: false,
+    fields: ['investmentType', 'priceMultiplier', 'rentalIncome', 'netFloorSpace', 'plotArea', 'numberOfUnits']
+  },
+  short_term: {
+    label: 'Wohnen auf Zeit',
+    confirmed: false,
+    mobile: { rent: 'shorttermaccommodation' },
+    rest: { rent: RealEstateType.SHORT_TERM_ACCOMMODATION },
+    areaFilter: 'livingspace',
+    hasRooms: true,
+    areaField: 'livingSpace',
+    fields: ['shortTermAccomodationType', 'maxNumberOfPersons', 'minRentalTime', 'startRentalDate', 'endRentalDate']
+  },
+  flat_share: {
+    label: 'WG-Zimmer',
+    confirmed: false,
+    mobile: { rent: 'flatshareroom' },
+    rest: { rent: RealEstateType.FLAT_SHARE_ROOM },
+    hasRooms: false,
+    areaField: 'roomSize',
+    fields: [
+      'roomSize', 'flatShareSize', 'numberOfMaleFlatMates', 'numberOfFemaleFlatMates',
+      'ageOfFlatMatesFrom', 'ageOfFlatMatesTo', 'startRentalDate', 'endRentalDate'
+    ]
+  },
+  new_build: {
+    label: 'Neubauprojekt',
+    confirmed: false,
+    mobile: { sale: 'apartmentbuy', rent: 'apartmentrent' },
+    rest: { sale: RealEstateType.APARTMENT_BUY, rent: RealEstateType.APARTMENT_RENT },
+    params: { sale: { newbuilding: true }, rent: { newbuilding: true } },
+    areaFilter: 'livingspace',
+    hasRooms: true,
+    areaField: 'livingSpace',
+    fields: ['apartmentType', 'constructionPhaseType', 'newlyConst']
+  }
+};
+
+export const PROPERTY_KINDS = Object.keys(REAL_ESTATE_TYPES) as PropertyKind[];
+
+/**
+ * Check whether a string names a property kind
+ */
+export function isPropertyKind(value: string): value is PropertyKind {
+  return value in REAL_ESTATE_TYPES;
+}
+
+/**
+ * Check whether a kind's type names were confirmed against live responses
+ */
+export function isConfirmedKind(kind: PropertyKind): boolean {
+  return REAL_ESTATE_TYPES[kind].confirmed;
+}
+
+/**
+ * Check whether a kind is residential (sized by living space or room size)
+ */
+export function isResidentialKind(kind: PropertyKind): boolean {
+  const areaField = REAL_ESTATE_TYPES[kind].areaField;
+  return areaField === 'livingSpace' || areaField === 'roomSize';
+}
+
+/**
+ * Check whether IS24 lists a kind for a transaction (e.g. no rented investments)
+ */
+export function supportsTransaction(kind: PropertyKind, transactionType: TransactionKind): boolean {
+  return REAL_ESTATE_TYPES[kind].mobile[transactionType] !== undefined;
+}
+
+/**
+ * Mobile API real estate type (e.g. "apartmentrent")
+ */
+export function getMobileRealEstateType(kind: PropertyKind, transactionType: TransactionKind): string {
+  const type = REAL_ESTATE_TYPES[kind].mobile[transactionType];
+  if (!type) {
+    throw new Error(`${kind} cannot be searched for ${transactionType}`);
+  }
+  return type;
+}
+
+/**
+ * REST API real estate type (e.g. "ApartmentRent")
+ */
+export function getRestRealEstateType(kind: PropertyKind, transactionType: TransactionKind): RealEstateType {
+  const type = REAL_ESTATE_TYPES[kind].rest[transactionType];
+  if (!type) {
+    throw new Error(`${kind} cannot be searched for ${transactionType}`);
+  }
+  return type;
+}
+
+/**
+ * Extra search parameters for a kind and transaction
+ */
+export function getTypeSearchParams(kind: PropertyKind, transactionType: TransactionKind): TypeSearchParams {
+  return REAL_ESTATE_TYPES[kind].params?.[transactionType] || {};
+}
+
+/**
+ * Build range filters for a kind; the area range goes to the kind's size
+ * filter and rooms are dropped for kinds without rooms
+ */
+export function buildTypeFilters(
+  kind: PropertyKind,
+  ranges: { price?: string; area?: string; rooms?: string }
+): Partial<Record<'price' | 'numberofrooms' | AreaFilterParam, string>> {
+  const spec = REAL_ESTATE_TYPES[kind];
+  return {
+    price: ranges.price,
+    ...(spec.areaFilter && ranges.area && { [spec.areaFilter]: ranges.area }),
+    ...(spec.hasRooms && ranges.rooms && { numberofrooms: ranges.rooms })
+  };
+}
+
+// Every API type name, lowercased, to its kind (first kind wins for shared names)
+const KIND_BY_TYPE_NAME = new Map<string, PropertyKind>();
+for (const kind of PROPERTY_KINDS) {
+  const spec = REAL_ESTATE_TYPES[kind];
+  for (const name of [...Object.values(spec.mobile), ...Object.values(spec.rest)]) {
+    const key = name!.toLowerCase();
+    if (!KIND_BY_TYPE_NAME.has(key)) {
+      KIND_BY_TYPE_NAME.set(key, kind);
+    }
+  }
+}
+KIND_BY_TYPE_NAME.set('tradesite', 'land');
+KIND_BY_TYPE_NAME.set('housetype', 'house');
+KIND_BY_TYPE_NAME.set('specialpurpose', 'industrial');
+
+/**
+ * Check whether an API type string is one of the catalogue's type names
+ * (parsePropertyKind also guesses unknown names by keyword)
+ */
+export function isKnownTypeName(typeString: string): boolean {
+  return KIND_BY_TYPE_NAME.has(typeString.toLowerCase().replace(/^[a-z]+[:.]/, ''));
+}
+
+/**
+ * Map an API type string ("apartmentrent", "search:Office",
+ * "expose.LivingBuySite", German names) to a property kind
+ */
+export function parsePropertyKind(typeString?: string): PropertyKind | 'property' {
+  if (!typeString) return 'property';
+
+  const type = typeString.toLowerCase().replace(/^[a-z]+[:.]/, '');
+  const known = KIND_BY_TYPE_NAME.get(type);
+  if (known) return known;
+
+  if (type.includes('apartment') || type.includes('wohnung')) return 'apartment';
+  if (type.includes('house') || type.includes('haus')) return 'house';
+  if (type.includes('site') || type.includes('land') || type.includes('grund')) return 'land';
+  if (type.includes('garage') || type.includes('stellplatz')) return 'garage';
+  if (type.includes('office') || type.includes('buero') || type.includes('büro')) return 'office';
+  if (type.includes('store') || type.includes('retail') || type.includes('laden')) return 'retail';
+  if (type.includes('gastro')) return 'gastronomy';
+  if (type.includes('industr') || type.includes('halle') || type.includes('gewerbe')) return 'industrial';
+  if (type.includes('investment') || type.includes('anlage')) return 'investment';
+  if (type.includes('shortterm') || type.includes('auf zeit')) return 'short_term';
+  if (type.includes('flatshare') || type.includes('wg')) return 'flat_share';
+
+  return 'property';
+}
+
+/**
+ * Type-specific values taken from an expose
+ */
+export interface TypeDetails {
+  sqm?: number;             // Living space or room size
+  plotArea?: number;
+  floorSpace?: number;      // Commercial total floor space
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Extract the size and type-specific fields of a kind from an expose's
+ * realEstate object
+ */
+export function extractTypeDetails(kind: PropertyKind | 'property', realEstate: Record<string, unknown>): TypeDetails {
+  if (kind === 'property') {
+    return { sqm: numberValue(realEstate.livingSpace), metadata: {} };
+  }
+
+  const spec = REAL_ESTATE_TYPES[kind];
+  const metadata: Record<string, unknown> = {};
+  for (const field of spec.fields) {
+    const value = realEstate[field];
+    if (value !== undefined && value !== null && value !== '') {
+      metadata[field] = value;
+    }
+  }
+
+  const area = spec.areaField ? numberValue(realEstate[spec.areaField]) : undefined;
+  return {
+    sqm: spec.areaField === 'livingSpace' || spec.areaField === 'roomSize' ? area : undefined,
+    plotArea: spec.areaField === 'plotArea' ? area : numberValue(realEstate.plotArea),
+    floorSpace: spec.areaField === 'totalFloorSpace' ? area : undefined,
+    metadata
+  };
+}
+
+function numberValue(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
@@ -10,35 +10,130 @@
  * - Resumability (stop and resume)
  * - Distributed processing (multiple workers)
  * - Deduplication (Redis Sets)
+ * - Payload storage (search results travel with their IDs)
+ * - Reliable delivery (per-worker processing lists + visibility-timeout reaper,
+ *   claims extended while their listing is processed)
+ * - Delayed retries (exponential backoff with jitter)
+ * - Dead-letter store (categorized failures, inspect and replay)
+ * - Discovery task queue (leaf searches produced by the partitioner)
+ * - Per-run namespaces (each coordinator run gets its own keys + run record)
+ * - Incremental crawl state (last crawl per search, IDs known across runs,
+ *   pruned by gc-runs after KNOWN_ID_MAX_AGE_DAYS without being seen)
+ * - Delisting state (ID set of the last full crawl per search, removed listings)
+ * - Schema-drift reports (per run, from the coordinator's response monitor)
  * - Observability (queue depth, processed count)
  */
 
 import Redis from 'ioredis';
+import { Property } from './shared-types';
+import { FailureCategory, FailureInfo } from './errors';
+import { DiscoveryTask, getTaskKey } from './search-partitioner';
+import { DriftReport } from './schema-monitor';
 import { createLogger } from './logger';
 
 const logger = createLogger('RedisQueue');
 
+// How long search-result payloads are kept for workers (default: 7 days)
+const PAYLOAD_TTL_SECONDS = parseInt(process.env.QUEUE_PAYLOAD_TTL_SECONDS || '', 10) || 7 * 24 * 60 * 60;
+
+// How long known IDs are kept after they were last seen (default: 90 days)
+const KNOWN_ID_MAX_AGE_MS = (parseInt(process.env.KNOWN_ID_MAX_AGE_DAYS || '', 10) || 90) * 24 * 60 * 60 * 1000;
+
+// Exponential backoff for retries (defaults: 30s base, capped at 30 minutes)
+const RETRY_BASE_DELAY_MS = parseInt(process.env.QUEUE_RETRY_BASE_DELAY_MS || '', 10) || 30 * 1000;
+const RETRY_MAX_DELAY_MS = parseInt(process.env.QUEUE_RETRY_MAX_DELAY_MS || '', 10) || 30 * 60 * 1000;
+
 export interface QueueStats {
   queueDepth: number;
   totalDiscovered: number;
   processedCount: number;
   failedCount: number;
+  inFlightCount: number;
+  delayedCount: number;
   remaining: number;
   startedAt?: string;
 }
 
+export interface DeadLetterEntry {
+  id: string;
+  category: FailureCategory;
+  error: string;
+  statusCode?: number;
+  responseSnippet?: string;
+  attempts: number;
+  firstFailedAt: string;
+  lastFailedAt: string;
+}
+
+export interface DeadLetterFilter {
+  category?: FailureCategory;
+  since?: string;           // ISO timestamp, matched against lastFailedAt
+  ids?: string[];
+}
+
+export type RunStatus = 'running' | 'completed' | 'failed';
+
+export interface RunRecord {
+  runId: string;
+  status: RunStatus;
+  startedAt: string;
+  discoveryFinishedAt?: string;
+  finishedAt?: string;
+  totalDiscovered?: number;
+  processedCount?: number;
+  failedCount?: number;
+}
+
+export interface RunComparison {
+  baseRunId: string;
+  otherRunId: string;
+  baseCount: number;
+  otherCount: number;
+  newIds: number;           // In other run but not in base run
+  missingIds: number;       // In base run but not in other run
+}
+
 export class RedisQueue {
   private redis: Redis;
-  private queueKey: string;
-  private allIdsKey: string;
-  private processedIdsKey: string;
-  private failedIdsKey: string;
-  private retriesKey: string;
-  private statsKey: string;
+  private basePrefix: string;
+  private currentRunKey: string;
+  private runsKey: string;
+  private searchCrawlsKey: string;
+  private incrementalCrawlsKey: string;
+  private knownIdsKey: string;
+  private scopeBaselinePrefix: string;
+  private removedKey: string;
+  private pendingDeactivationsKey: string;
+  private runId: string | null | undefined;
+  private queueKey!: string;
+  private allIdsKey!: string;
+  private processedIdsKey!: string;
+  private failedIdsKey!: string;
+  private retriesKey!: string;
+  private statsKey!: string;
+  private payloadsKey!: string;
+  private processingPrefix!: string;
+  private processingWorkersKey!: string;
+  private claimsKey!: string;
+  private delayedKey!: string;
+  private deadLetterKey!: string;
+  private discoveryKey!: string;
+  private plannedKey!: string;
+  private checkpointsKey!: string;
+  private scopeIdsPrefix!: string;
+  private partialScopesKey!: string;
+  private truncatedScopesKey!: string;
+  private schemaDriftKey!: string;
 
+  /**
+   * @param runId Run namespace to use. When omitted, initialize() resolves
+   *   RUN_ID from the environment or the portal's current run. null selects
+   *   the legacy un-namespaced keys.
+   */
   constructor(
     portal: string,
-    redisUrl?: string
+    redisUrl?: string,
+    runId?: string | null
   ) {
     // Connect to Redis
     this.redis = new Redis(redisUrl || process.env.REDIS_URL || 'redis://localhost:6379', {
@@ -52,14 +147,18 @@ export class RedisQueue {
       },
     });
 
-    // Set up key namespaces
-    const prefix = `landomo:${portal}`;
-    this.queueKey = `${prefix}:queue`;
-    this.allIdsKey = `${prefix}:all_ids`;
-    this.processedIdsKey = `${prefix}:processed`;
-    this.failedIdsKey = `${prefix}:failed`;
-    this.retriesKey = `${prefix}:retries`;
-    this.statsKey = `${prefix}:stats`;
+    // Set up key namespaces (portal-level run registry + run-scoped queue keys)
+    this.basePrefix = `landomo:${portal}`;
+    this.currentRunKey = `${this.basePrefix}:current_run`;
+    this.runsKey = `${this.basePrefix}:runs`;
+    this.searchCrawlsKey = `${this.basePrefix}:search_crawls`;
+    this.incrementalCrawlsKey = `${this.basePrefix}:incremental_crawls`;
+    this.knownIdsKey = `${this.basePrefix}:known_ids`;
+    this.scopeBaselinePrefix = `${this.basePrefix}:scope_baseline`;
+    this.removedKey = `${this.basePrefix}:removed`;
+    this.pendingDeactivationsKey = `${this.basePrefix}:pending_deactivations`;
+    this.runId = runId;
+    this.setNamespace(runId ?? null);
 
     // Event handlers
     this.redis.on('connect', () => {
@@ -72,13 +171,67 @@ export class RedisQueue {
   }
 
   /**
-   * Initialize queue (set start time)
+   * Initialize queue (resolve run namespace, set start time)
    */
   async initialize(): Promise<void> {
+    if (this.runId === undefined) {
+      this.runId = process.env.RUN_ID || await this.redis.get(this.currentRunKey);
+      this.setNamespace(this.runId);
+    }
+
     const startedAt = await this.redis.hget(this.statsKey, 'started_at');
     if (!startedAt) {
       await this.redis.hset(this.statsKey, 'started_at', new Date().toISOString());
     }
+
+    await this.migrateKnownIds();
+    await this.migrateScopeBaselines();
+  }
+
+  /**
+   * Convert known IDs from the old plain set to the last-seen sorted set
+   */
+  private async migrateKnownIds(): Promise<void> {
+    if (await this.redis.type(this.knownIdsKey) !== 'set') return;
+
+    const ids = await this.redis.smembers(this.knownIdsKey);
+    const now = Date.now();
+    const multi = this.redis.multi();
+    multi.del(this.knownIdsKey);
+    for (let i = 0; i < ids.length; i += 1000) {
+      multi.zadd(this.knownIdsKey, ...ids.slice(i, i + 1000).flatMap(id => [now, id]));
+    }
+    await multi.exec();
+    logger.info(`Migrated ${ids.length} known IDs to last-seen times`);
+  }
+
+  /**
+   * Move delisting baselines from the old portal-level scope_ids keys
+   *
+   * Without a run namespace those keys hold the current crawl's IDs, so
+   * only namespaced runs can tell them apart from a baseline.
+   */
+  private async migrateScopeBaselines(): Promise<void> {
+    if (!this.runId) return;
+
+    let migrated = 0;
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.redis.scan(cursor, 'MATCH', `${this.basePrefix}:scope_ids:*`, 'COUNT', 500);
+      cursor = next;
+      for (const key of keys) {
+        const scope = key.slice(`${this.basePrefix}:scope_ids:`.length);
+        if (await this.redis.renamenx(key, `${this.scopeBaselinePrefix}:${scope}`)) {
+          migrated++;
+        } else {
+          await this.redis.del(key);
+        }
+      }
+    } while (cursor !== '0');
+
+    if (migrated > 0) {
+      logger.info(`Migrated ${migrated} delisting baselines`);
+    }
   }
 
   /**
@@ -95,6 +248,7 @@ export class RedisQueue {
     const pipeline = this.redis.pipeline();
     pipeline.lpush(this.queueKey, id);
     pipeline.sadd(this.allIdsKey, id);
+    pipeline.zadd(this.knownIdsKey, Date.now(), id);
     await pipeline.exec();
 
     return true;
@@ -115,6 +269,9 @@ export class RedisQueue {
       for (const id of batch) {
         pipeline.sadd(this.allIdsKey, id);
       }
+      // Every ID seen refreshes its last-seen time, new or not
+      const now = Date.now();
+      pipeline.zadd(this.knownIdsKey, ...batch.flatMap(id => [now, id]));
 
       const results = await pipeline.exec();
 
@@ -130,6 +287,113 @@ export class RedisQueue {
     return addedCount;
   }
 
+  /**
+   * Push parsed listings to queue, storing each payload alongside its ID
+   *
+   * Payloads are refreshed even for IDs that are already known, so workers
+   * always see the latest search-result data.
+   */
+  async pushListings(properties: Property[]): Promise<number> {
+    const batchSize = 1000;
+    for (let i = 0; i < properties.length; i += batchSize) {
+      const batch = properties.slice(i, i + batchSize);
+      const pipeline = this.redis.pipeline();
+
+      for (const property of batch) {
+        pipeline.hset(this.payloadsKey, property.id, JSON.stringify(property));
+      }
+      pipeline.expire(this.payloadsKey, PAYLOAD_TTL_SECONDS);
+
+      await pipeline.exec();
+    }
+
+    return this.pushListingIds(properties.map(p => p.id));
+  }
+
+  /**
+   * Get stored payload for listing ID
+   */
+  async getListingPayload(id: string): Promise<Property | null> {
+    const payload = await this.redis.hget(this.payloadsKey, id);
+    if (!payload) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(payload) as Property;
+    } catch (error) {
+      logger.warn(`Invalid payload for ${id}, ignoring`);
+      return null;
+    }
+  }
+
+  /**
+   * Remove stored payload for listing ID
+   */
+  async deleteListingPayload(id: string): Promise<void> {
+    await this.redis.hdel(this.payloadsKey, id);
+  }
+
+  /**
+   * Push discovery tasks (leaf searches) for the coordinator to scrape
+   *
+   * @param searchKey When given, the search is recorded as planned in the
+   *   same transaction, so a resumed coordinator does not plan it twice
+   */
+  async pushDiscoveryTasks(tasks: DiscoveryTask[], searchKey?: string): Promise<void> {
+    const multi = this.redis.multi();
+    if (tasks.length > 0) {
+      multi.lpush(this.discoveryKey, ...tasks.map(task => JSON.stringify(task)));
+    }
+    if (searchKey) {
+      multi.sadd(this.plannedKey, searchKey);
+    }
+    await multi.exec();
+  }
+
+  /**
+   * Check whether a search was already planned in this run
+   */
+  async isSearchPlanned(searchKey: string): Promise<boolean> {
+    return (await this.redis.sismember(this.plannedKey, searchKey)) === 1;
+  }
+
+  /**
+   * Get next discovery task without removing it (non-blocking)
+   *
+   * The task stays queued until completeDiscoveryTask(), so a coordinator
+   * that dies mid-search picks it up again on restart.
+   */
+  async peekDiscoveryTask(): Promise<DiscoveryTask | null> {
+    const task = await this.redis.lindex(this.discoveryKey, -1);
+    return task ? JSON.parse(task) as DiscoveryTask : null;
+  }
+
+  /**
+   * Remove a finished discovery task and its page checkpoint
+   */
+  async completeDiscoveryTask(task: DiscoveryTask): Promise<void> {
+    const pipeline = this.redis.pipeline();
+    pipeline.lrem(this.discoveryKey, -1, JSON.stringify(task));
+    pipeline.hdel(this.checkpointsKey, getTaskKey(task));
+    await pipeline.exec();
+  }
+
+  /**
+   * Get last completed page of a discovery task (0 = not started)
+   */
+  async getPageCheckpoint(task: DiscoveryTask): Promise<number> {
+    const page = await this.redis.hget(this.checkpointsKey, getTaskKey(task));
+    return page ? parseInt(page, 10) : 0;
+  }
+
+  /**
+   * Record last completed page of a discovery task
+   */
+  async savePageCheckpoint(task: DiscoveryTask, page: number): Promise<void> {
+    await this.redis.hset(this.checkpointsKey, getTaskKey(task), page);
+  }
+
   /**
    * Pop next listing ID from queue (blocking)
    */
@@ -141,6 +405,117 @@ export class RedisQueue {
     return result[1]; // brpop returns [key, value]
   }
 
+  /**
+   * Claim next listing ID for a worker (blocking, reliable)
+   *
+   * The ID is atomically moved into the worker's processing list and stays
+   * there until acknowledged. If the worker dies first, the reaper returns
+   * it to the queue once the visibility timeout has passed.
+   */
+  async claimListingId(workerId: string, timeoutSeconds: number = 5): Promise<string | null> {
+    const processingKey = this.getProcessingKey(workerId);
+    const id = await this.redis.blmove(this.queueKey, processingKey, 'RIGHT', 'LEFT', timeoutSeconds);
+    if (!id) {
+      return null;
+    }
+
+    const pipeline = this.redis.pipeline();
+    pipeline.sadd(this.processingWorkersKey, workerId);
+    pipeline.hset(this.claimsKey, id, JSON.stringify({ workerId, claimedAt: Date.now() }));
+    await pipeline.exec();
+
+    return id;
+  }
+
+  /**
+   * Acknowledge a claimed listing ID (removes it from the processing list)
+   */
+  async ackListingId(workerId: string, id: string): Promise<void> {
+    const pipeline = this.redis.pipeline();
+    pipeline.lrem(this.getProcessingKey(workerId), 1, id);
+    pipeline.hdel(this.claimsKey, id);
+    await pipeline.exec();
+  }
+
+  /**
+   * Restart the visibility timeout of an ID a worker is still processing
+   *
+   * @returns false when the claim was reaped or belongs to another worker
+   */
+  async extendClaim(workerId: string, id: string): Promise<boolean> {
+    const claim = await this.redis.hget(this.claimsKey, id);
+    if (!claim || (JSON.parse(claim) as { workerId: string }).workerId !== workerId) {
+      return false;
+    }
+
+    await this.redis.hset(this.claimsKey, id, JSON.stringify({ workerId, claimedAt: Date.now() }));
+    return true;
+  }
+
+  /**
+   * Return all IDs claimed by a worker to the queue (e.g. on shutdown)
+   */
+  async releaseClaims(workerId: string): Promise<number> {
+    const processingKey = this.getProcessingKey(workerId);
+    let released = 0;
+
+    // RPOPLPUSH-style move to the consuming end, so released IDs are next
+    while (await this.redis.lmove(processingKey, this.queueKey, 'RIGHT', 'RIGHT')) {
+      released++;
+    }
+
+    if (released > 0) {
+      logger.info(`Released ${released} in-flight listings from ${workerId}`);
+    }
+
+    return released;
+  }
+
+  /**
+   * Return IDs held longer than the visibility timeout to the queue
+   */
+  async reapStaleClaims(visibilityTimeoutMs: number): Promise<number> {
+    const workerIds = await this.redis.smembers(this.processingWorkersKey);
+    const now = Date.now();
+    let reaped = 0;
+
+    for (const workerId of workerIds) {
+      const processingKey = this.getProcessingKey(workerId);
+      const ids = await this.redis.lrange(processingKey, 0, -1);
+
+      for (const id of ids) {
+        const claim = await this.redis.hget(this.claimsKey, id);
+
+        // Worker died between move and claim record: start the clock now
+        if (!claim) {
+          await this.redis.hset(this.claimsKey, id, JSON.stringify({ workerId, claimedAt: now }));
+          continue;
+        }
+
+        const { claimedAt } = JSON.parse(claim) as { workerId: string; claimedAt: number };
+        if (now - claimedAt < visibilityTimeoutMs) {
+          continue;
+        }
+
+        // LREM decides the race between concurrent reapers
+        const removed = await this.redis.lrem(processingKey, 1, id);
+        if (removed > 0) {
+          const pipeline = this.redis.pipeline();
+          pipeline.rpush(this.queueKey, id);
+          pipeline.hdel(this.claimsKey, id);
+          await pipeline.exec();
+          reaped++;
+        }
+      }
+    }
+
+    if (reaped > 0) {
+      logger.warn(`Reaped ${reaped} stale in-flight listings`);
+    }
+
+    return reaped;
+  }
+
   /**
    * Check if listing ID is already processed
    */
@@ -156,13 +531,35 @@ export class RedisQueue {
   }
 
   /**
-   * Mark listing ID as failed
+   * Mark listing ID as failed and record it in the dead-letter store
    */
-  async markFailed(id: string, error?: string): Promise<void> {
-    await this.redis.sadd(this.failedIdsKey, id);
-    if (error) {
-      await this.redis.hset(`${this.failedIdsKey}:errors`, id, error);
-    }
+  async markFailed(id: string, failure?: FailureInfo | string): Promise<void> {
+    const info: FailureInfo = typeof failure === 'string'
+      ? { category: 'unknown', message: failure }
+      : failure || { category: 'unknown', message: 'Unknown error' };
+
+    const [existing, attempts] = await Promise.all([
+      this.getDeadLetter(id),
+      this.getRetryCount(id)
+    ]);
+    const now = new Date().toISOString();
+
+    const entry: DeadLetterEntry = {
+      id,
+      category: info.category,
+      error: info.message,
+      statusCode: info.statusCode,
+      responseSnippet: info.responseSnippet,
+      attempts: Math.max(attempts, 1),
+      firstFailedAt: existing?.firstFailedAt || now,
+      lastFailedAt: now
+    };
+
+    const pipeline = this.redis.pipeline();
+    pipeline.sadd(this.failedIdsKey, id);
+    pipeline.hset(`${this.failedIdsKey}:errors`, id, info.message);
+    pipeline.hset(this.deadLetterKey, id, JSON.stringify(entry));
+    await pipeline.exec();
   }
 
   /**
@@ -182,19 +579,50 @@ export class RedisQueue {
 
   /**
    * Re-queue failed listing with retry check
+   *
+   * The ID is not pushed back immediately; it is scheduled in the delayed
+   * set and promoted to the queue once its backoff has elapsed.
    */
-  async requeueWithRetry(id: string, maxRetries: number = 3): Promise<boolean> {
+  async requeueWithRetry(id: string, maxRetries: number = 3, lastError?: FailureInfo): Promise<boolean> {
     const retries = await this.incrementRetry(id);
 
     if (retries <= maxRetries) {
-      await this.redis.lpush(this.queueKey, id);
+      const delay = computeRetryDelay(retries);
+      await this.redis.zadd(this.delayedKey, Date.now() + delay, id);
+      logger.debug(`Retry ${retries}/${maxRetries} for ${id} scheduled in ${Math.round(delay / 1000)}s`);
       return true;
     } else {
-      await this.markFailed(id, `Max retries (${maxRetries}) exceeded`);
+      const reason = `Max retries (${maxRetries}) exceeded`;
+      await this.markFailed(id, lastError
+        ? { ...lastError, message: `${reason}: ${lastError.message}` }
+        : reason);
       return false;
     }
   }
 
+  /**
+   * Move retries whose backoff has elapsed back into the queue
+   */
+  async promoteDueRetries(): Promise<number> {
+    const dueIds = await this.redis.zrangebyscore(this.delayedKey, '-inf', Date.now());
+    let promoted = 0;
+
+    for (const id of dueIds) {
+      // ZREM decides the race between concurrent promoters
+      const removed = await this.redis.zrem(this.delayedKey, id);
+      if (removed > 0) {
+        await this.redis.lpush(this.queueKey, id);
+        promoted++;
+      }
+    }
+
+    if (promoted > 0) {
+      logger.debug(`Promoted ${promoted} due retries to queue`);
+    }
+
+    return promoted;
+  }
+
   /**
    * Get queue statistics
    */
@@ -205,6 +633,8 @@ export class RedisQueue {
     pipeline.scard(this.processedIdsKey);   // Processed count
     pipeline.scard(this.failedIdsKey);      // Failed count
     pipeline.hget(this.statsKey, 'started_at');
+    pipeline.hlen(this.claimsKey);          // In-flight count
+    pipeline.zcard(this.delayedKey);        // Delayed retries
 
     const results = await pipeline.exec();
 
@@ -213,13 +643,17 @@ export class RedisQueue {
     const processedCount = (results![2][1] as number) || 0;
     const failedCount = (results![3][1] as number) || 0;
     const startedAt = results![4][1] as string | null;
+    const inFlightCount = (results![5][1] as number) || 0;
+    const delayedCount = (results![6][1] as number) || 0;
 
     return {
       queueDepth,
       totalDiscovered,
       processedCount,
       failedCount,
-      remaining: queueDepth,
+      inFlightCount,
+      delayedCount,
+      remaining: queueDepth + inFlightCount + delayedCount,
       startedAt: startedAt || undefined,
     };
   }
@@ -237,14 +671,38 @@ export class RedisQueue {
    * Clear all queue data (use with caution!)
    */
   async clear(): Promise<void> {
+    const workerIds = await this.redis.smembers(this.processingWorkersKey);
     await this.redis.del(
+      ...workerIds.map(workerId => this.getProcessingKey(workerId)),
       this.queueKey,
       this.allIdsKey,
       this.processedIdsKey,
       this.failedIdsKey,
       this.retriesKey,
-      this.statsKey
+      this.statsKey,
+      this.payloadsKey,
+      this.processingWorkersKey,
+      this.claimsKey,
+      this.delayedKey,
+      `${this.failedIdsKey}:errors`,
+      this.deadLetterKey,
+      this.discoveryKey,
+      this.plannedKey,
+      this.checkpointsKey,
+      this.partialScopesKey,
+      this.truncatedScopesKey,
+      this.schemaDriftKey
     );
+
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.redis.scan(cursor, 'MATCH', `${this.scopeIdsPrefix}:*`, 'COUNT', 500);
+      cursor = next;
+      if (keys.length > 0) {
+        await this.redis.del(...keys);
+      }
+    } while (cursor !== '0');
+
     logger.warn('Queue data cleared');
   }
 
@@ -260,22 +718,565 @@ export class RedisQueue {
    */
   async retryFailedListings(): Promise<number> {
     const failedIds = await this.getFailedIds();
+    return this.replayIds(failedIds);
+  }
+
+  /**
+   * Get dead-letter entry for listing ID
+   */
+  async getDeadLetter(id: string): Promise<DeadLetterEntry | null> {
+    const entry = await this.redis.hget(this.deadLetterKey, id);
+    return entry ? JSON.parse(entry) as DeadLetterEntry : null;
+  }
+
+  /**
+   * Get dead-letter entries matching a filter, most recent first
+   */
+  async getDeadLetters(filter: DeadLetterFilter = {}): Promise<DeadLetterEntry[]> {
+    const values = filter.ids && filter.ids.length > 0
+      ? await this.redis.hmget(this.deadLetterKey, ...filter.ids)
+      : await this.redis.hvals(this.deadLetterKey);
+
+    return values
+      .filter((value): value is string => !!value)
+      .map(value => JSON.parse(value) as DeadLetterEntry)
+      .filter(entry => !filter.category || entry.category === filter.category)
+      .filter(entry => !filter.since || entry.lastFailedAt >= filter.since)
+      .sort((a, b) => b.lastFailedAt.localeCompare(a.lastFailedAt));
+  }
 
-    if (failedIds.length === 0) {
+  /**
+   * Count dead-letter entries per category
+   */
+  async getDeadLetterCounts(): Promise<Partial<Record<FailureCategory, number>>> {
+    const counts: Partial<Record<FailureCategory, number>> = {};
+    for (const entry of await this.getDeadLetters()) {
+      counts[entry.category] = (counts[entry.category] || 0) + 1;
+    }
+    return counts;
+  }
+
+  /**
+   * Re-queue dead-lettered listings matching a filter
+   */
+  async replayDeadLetters(filter: DeadLetterFilter = {}): Promise<number> {
+    const entries = await this.getDeadLetters(filter);
+    return this.replayIds(entries.map(entry => entry.id));
+  }
+
+  /**
+   * Remove IDs from the failed/dead-letter stores and push them back to the queue
+   */
+  private async replayIds(ids: string[]): Promise<number> {
+    if (ids.length === 0) {
       return 0;
     }
 
-    // Remove from failed set and add back to queue
     const pipeline = this.redis.pipeline();
-    for (const id of failedIds) {
+    for (const id of ids) {
       pipeline.srem(this.failedIdsKey, id);
+      pipeline.hdel(`${this.failedIdsKey}:errors`, id);
+      pipeline.hdel(this.deadLetterKey, id);
+      pipeline.zrem(this.delayedKey, id);
       pipeline.lpush(this.queueKey, id);
       pipeline.hdel(this.retriesKey, id); // Reset retry count
     }
     await pipeline.exec();
 
-    logger.info(`Re-queued ${failedIds.length} failed listings`);
-    return failedIds.length;
+    logger.info(`Re-queued ${ids.length} failed listings`);
+    return ids.length;
+  }
+
+  /**
+   * Get the run ID this queue is bound to (null for legacy keys)
+   */
+  getRunId(): string | null {
+    return this.runId ?? null;
+  }
+
+  /**
+   * Start a new run: create its record, make it current and switch to it
+   */
+  async startRun(runId: string = generateRunId()): Promise<string> {
+    const record: RunRecord = {
+      runId,
+      status: 'running',
+      startedAt: new Date().toISOString()
+    };
+
+    const pipeline = this.redis.pipeline();
+    pipeline.hset(this.getRunRecordKey(runId), serializeRunRecord(record));
+    pipeline.zadd(this.runsKey, Date.now(), runId);
+    pipeline.set(this.currentRunKey, runId);
+    await pipeline.exec();
+
+    this.runId = runId;
+    this.setNamespace(runId);
+    await this.redis.hset(this.statsKey, 'started_at', record.startedAt);
+
+    logger.info(`Started run ${runId}`);
+    return runId;
+  }
+
+  /**
+   * Switch to the current run if its discovery phase never finished
+   *
+   * @returns Run ID of the resumed run, or null if there is nothing to resume
+   */
+  async resumeDiscoveryRun(): Promise<string | null> {
+    const current = process.env.RUN_ID || await this.redis.get(this.currentRunKey);
+    if (!current) {
+      return null;
+    }
+
+    const run = await this.getRun(current);
+    if (!run || run.status !== 'running' || run.discoveryFinishedAt) {
+      return null;
+    }
+
+    this.runId = current;
+    this.setNamespace(current);
+    logger.info(`Resuming run ${current}`);
+    return current;
+  }
+
+  /**
+   * Record that discovery for the current run has finished
+   */
+  async completeDiscovery(): Promise<void> {
+    if (!this.runId) return;
+
+    const stats = await this.getStats();
+    await this.redis.hset(this.getRunRecordKey(this.runId), {
+      discoveryFinishedAt: new Date().toISOString(),
+      totalDiscovered: stats.totalDiscovered
+    });
+  }
+
+  /**
+   * Get when each plan search was last crawled (portal-level, survives runs)
+   */
+  async getSearchCrawlTimes(): Promise<Record<string, string>> {
+    return this.redis.hgetall(this.searchCrawlsKey);
+  }
+
+  /**
+   * Record that a plan search was crawled
+   */
+  async markSearchCrawled(searchName: string, crawledAt: Date = new Date()): Promise<void> {
+    await this.redis.hset(this.searchCrawlsKey, searchName, crawledAt.toISOString());
+  }
+
+  /**
+   * Get the start of the last successful incremental crawl of a search
+   */
+  async getIncrementalCrawlTime(searchKey: string): Promise<Date | null> {
+    const value = await this.redis.hget(this.incrementalCrawlsKey, searchKey);
+    return value ? new Date(value) : null;
+  }
+
+  /**
+   * Record a successful crawl of searches; the next incremental crawl picks
+   * up listings activated since crawledAt (the crawl's start)
+   */
+  async markIncrementalCrawl(searchKeys: string[], crawledAt: Date): Promise<void> {
+    if (searchKeys.length === 0) return;
+
+    await this.redis.hset(
+      this.incrementalCrawlsKey,
+      Object.fromEntries(searchKeys.map(key => [key, crawledAt.toISOString()]))
+    );
+  }
+
+  /**
+   * Forget the last incremental crawl of searches, so they are crawled in
+   * full next time
+   */
+  async resetIncrementalCrawl(searchKeys: string[]): Promise<void> {
+    if (searchKeys.length === 0) return;
+
+    await this.redis.hdel(this.incrementalCrawlsKey, ...searchKeys);
+  }
+
+  /**
+   * Check whether any of the IDs was discovered by this or an earlier run
+   */
+  async hasKnownIds(ids: string[]): Promise<boolean> {
+    if (ids.length === 0) return false;
+
+    const scores = await this.redis.zmscore(this.knownIdsKey, ...ids);
+    return scores.some(score => score !== null);
+  }
+
+  /**
+   * Forget known IDs not seen for KNOWN_ID_MAX_AGE_DAYS
+   *
+   * @returns Number of IDs removed
+   */
+  async pruneKnownIds(): Promise<number> {
+    return this.redis.zremrangebyscore(this.knownIdsKey, '-inf', Date.now() - KNOWN_ID_MAX_AGE_MS);
+  }
+
+  /**
+   * Record IDs found for a search scope in this run
+   *
+   * Listings seen again are no longer considered removed.
+   */
+  async recordScopeIds(scope: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const pipeline = this.redis.pipeline();
+    pipeline.sadd(`${this.scopeIdsPrefix}:${scope}`, ...ids);
+    pipeline.zrem(this.removedKey, ...ids);
+    pipeline.zrem(this.pendingDeactivationsKey, ...ids);
+    await pipeline.exec();
+  }
+
+  /**
+   * Record that a search scope was not crawled in full in this run
+   * (incremental or truncated searches), so it is not checked for delistings
+   */
+  async markScopePartial(scope: string): Promise<void> {
+    await this.redis.sadd(this.partialScopesKey, scope);
+  }
+
+  /**
+   * Check whether a search scope was not crawled in full in this run
+   */
+  async isScopePartial(scope: string): Promise<boolean> {
+    return (await this.redis.sismember(this.partialScopesKey, scope)) === 1;
+  }
+
+  /**
+   * Record that an incremental search of a scope stopped at the page limit
+   * in this run, so listings beyond the limit were not discovered
+   */
+  async markScopeTruncated(scope: string): Promise<void> {
+    await this.redis.sadd(this.truncatedScopesKey, scope);
+  }
+
+  /**
+   * Check whether an incremental search of a scope stopped at the page limit
+   */
+  async isScopeTruncated(scope: string): Promise<boolean> {
+    return (await this.redis.sismember(this.truncatedScopesKey, scope)) === 1;
+  }
+
+  /**
+   * Compare a scope's IDs in this run against its last full crawl
+   *
+   * @returns IDs of the last full crawl missing from this run, and the size
+   *   of the last full crawl (null when the scope was never crawled in full)
+   */
+  async getMissingScopeIds(scope: string): Promise<{ missing: string[]; baselineCount: number | null }> {
+    const baselineKey = `${this.scopeBaselinePrefix}:${scope}`;
+    const results = await this.redis.pipeline()
+      .exists(baselineKey)
+      .scard(baselineKey)
+      .sdiff(baselineKey, `${this.scopeIdsPrefix}:${scope}`)
+      .exec();
+
+    if (!results![0][1]) {
+      return { missing: [], baselineCount: null };
+    }
+
+    return {
+      missing: results![2][1] as string[],
+      baselineCount: results![1][1] as number
+    };
+  }
+
+  /**
+   * Make this run's IDs the scope's baseline for the next comparison
+   *
+   * @param keepIds Missing IDs that were not confirmed as removed; they stay
+   *   in the baseline and are checked again next time
+   */
+  async commitScopeIds(scope: string, keepIds: string[] = []): Promise<void> {
+    const runKey = `${this.scopeIdsPrefix}:${scope}`;
+    const baselineKey = `${this.scopeBaselinePrefix}:${scope}`;
+
+    const multi = this.redis.multi();
+    multi.del(baselineKey);
+    multi.sunionstore(baselineKey, runKey);
+    if (keepIds.length > 0) {
+      multi.sadd(baselineKey, ...keepIds);
+    }
+    await multi.exec();
+  }
+
+  /**
+   * Mark listings as removed from IS24
+   */
+  async markRemoved(ids: string[], removedAt: Date = new Date()): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.redis.zadd(this.removedKey, ...ids.flatMap(id => [removedAt.getTime(), id]));
+  }
+
+  /**
+   * Get when a listing was found to be removed (null if it is active)
+   */
+  async getRemovedAt(id: string): Promise<Date | null> {
+    const score = await this.redis.zscore(this.removedKey, id);
+    return score ? new Date(parseInt(score, 10)) : null;
+  }
+
+  /**
+   * List removed listings, most recently removed first
+   */
+  async getRemovedListings(limit: number = 50): Promise<Array<{ id: string; removedAt: string }>> {
+    const entries = await this.redis.zrevrange(this.removedKey, 0, limit - 1, 'WITHSCORES');
+    const removed: Array<{ id: string; removedAt: string }> = [];
+
+    for (let i = 0; i < entries.length; i += 2) {
+      removed.push({ id: entries[i], removedAt: new Date(parseInt(entries[i + 1], 10)).toISOString() });
+    }
+
+    return removed;
+  }
+
+  /**
+   * Count removed listings
+   */
+  async getRemovedCount(): Promise<number> {
+    return this.redis.zcard(this.removedKey);
+  }
+
+  /**
+   * Record removed listings whose deactivation still has to reach the Core
+   * Service
+   */
+  async addPendingDeactivations(ids: string[], removedAt: Date): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.redis.zadd(this.pendingDeactivationsKey, ...ids.flatMap(id => [removedAt.getTime(), id]));
+  }
+
+  /**
+   * Get removed listings whose deactivation has not been sent, oldest first
+   */
+  async getPendingDeactivations(): Promise<Array<{ id: string; removedAt: Date }>> {
+    const entries = await this.redis.zrange(this.pendingDeactivationsKey, 0, -1, 'WITHSCORES');
+    const pending: Array<{ id: string; removedAt: Date }> = [];
+
+    for (let i = 0; i < entries.length; i += 2) {
+      pending.push({ id: entries[i], removedAt: new Date(parseInt(entries[i + 1], 10)) });
+    }
+
+    return pending;
+  }
+
+  /**
+   * Clear deactivations that were sent
+   */
+  async clearPendingDeactivations(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.redis.zrem(this.pendingDeactivationsKey, ...ids);
+  }
+
+  /**
+   * Store the schema-drift reports of this run (one per API)
+   */
+  async saveSchemaDrift(reports: DriftReport[]): Promise<void> {
+    if (reports.length === 0) return;
+
+    await this.redis.hset(
+      this.schemaDriftKey,
+      Object.fromEntries(reports.map(report => [report.api, JSON.stringify(report)]))
+    );
+  }
+
+  /**
+   * Get the schema-drift reports of this run
+   */
+  async getSchemaDrift(): Promise<DriftReport[]> {
+    const hash = await this.redis.hgetall(this.schemaDriftKey);
+    return Object.values(hash).map(value => JSON.parse(value) as DriftReport);
+  }
+
+  /**
+   * Finish the current run, snapshotting its counts (first caller wins)
+   */
+  async finishRun(status: RunStatus = 'completed'): Promise<boolean> {
+    if (!this.runId) return false;
+
+    const recordKey = this.getRunRecordKey(this.runId);
+    const claimed = await this.redis.hsetnx(recordKey, 'finishedAt', new Date().toISOString());
+    if (!claimed) {
+      return false;
+    }
+
+    const stats = await this.getStats();
+    await this.redis.hset(recordKey, {
+      status,
+      totalDiscovered: stats.totalDiscovered,
+      processedCount: stats.processedCount,
+      failedCount: stats.failedCount
+    });
+
+    logger.info(`Finished run ${this.runId} (${status})`);
+    return true;
+  }
+
+  /**
+   * Switch to the portal's current run if it changed (used by long-lived workers)
+   */
+  async switchToCurrentRun(): Promise<boolean> {
+    const current = process.env.RUN_ID || await this.redis.get(this.currentRunKey);
+    if (!current || current === this.runId) {
+      return false;
+    }
+
+    this.runId = current;
+    this.setNamespace(current);
+    logger.info(`Switched to run ${current}`);
+    return true;
+  }
+
+  /**
+   * Get a run record
+   */
+  async getRun(runId: string): Promise<RunRecord | null> {
+    const hash = await this.redis.hgetall(this.getRunRecordKey(runId));
+    return hash.runId ? deserializeRunRecord(hash) : null;
+  }
+
+  /**
+   * List run records, most recent first
+   */
+  async listRuns(limit: number = 20): Promise<RunRecord[]> {
+    const runIds = await this.redis.zrevrange(this.runsKey, 0, limit - 1);
+    const runs: RunRecord[] = [];
+
+    for (const runId of runIds) {
+      const run = await this.getRun(runId);
+      if (run) runs.push(run);
+    }
+
+    return runs;
+  }
+
+  /**
+   * Compare discovered ID sets of two runs
+   */
+  async compareRuns(baseRunId: string, otherRunId: string): Promise<RunComparison> {
+    const baseIdsKey = `${this.getRunPrefix(baseRunId)}:all_ids`;
+    const otherIdsKey = `${this.getRunPrefix(otherRunId)}:all_ids`;
+    const tempKey = `${this.basePrefix}:tmp:compare:${process.pid}:${Date.now()}`;
+
+    const pipeline = this.redis.pipeline();
+    pipeline.scard(baseIdsKey);
+    pipeline.scard(otherIdsKey);
+    pipeline.sdiffstore(`${tempKey}:new`, otherIdsKey, baseIdsKey);
+    pipeline.sdiffstore(`${tempKey}:missing`, baseIdsKey, otherIdsKey);
+    pipeline.del(`${tempKey}:new`, `${tempKey}:missing`);
+    const results = await pipeline.exec();
+
+    return {
+      baseRunId,
+      otherRunId,
+      baseCount: (results![0][1] as number) || 0,
+      otherCount: (results![1][1] as number) || 0,
+      newIds: (results![2][1] as number) || 0,
+      missingIds: (results![3][1] as number) || 0
+    };
+  }
+
+  /**
+   * Delete a run's keys and record
+   */
+  async deleteRun(runId: string): Promise<number> {
+    const runPrefix = this.getRunPrefix(runId);
+    let deleted = 0;
+    let cursor = '0';
+
+    do {
+      const [next, keys] = await this.redis.scan(cursor, 'MATCH', `${runPrefix}:*`, 'COUNT', 500);
+      cursor = next;
+      if (keys.length > 0) {
+        deleted += await this.redis.del(...keys);
+      }
+    } while (cursor !== '0');
+
+    const pipeline = this.redis.pipeline();
+    pipeline.del(this.getRunRecordKey(runId));
+    pipeline.zrem(this.runsKey, runId);
+    await pipeline.exec();
+
+    logger.info(`Deleted run ${runId} (${deleted} keys)`);
+    return deleted;
+  }
+
+  /**
+   * Delete all but the most recent runs (the current run is always kept) and
+   * prune known IDs not seen for a long time
+   */
+  async gcRuns(keep: number): Promise<string[]> {
+    const current = await this.redis.get(this.currentRunKey);
+    const runIds = await this.redis.zrevrange(this.runsKey, 0, -1);
+    const removed: string[] = [];
+
+    for (const runId of runIds.slice(keep)) {
+      if (runId === current) continue;
+      await this.deleteRun(runId);
+      removed.push(runId);
+    }
+
+    const pruned = await this.pruneKnownIds();
+    if (pruned > 0) {
+      logger.info(`Pruned ${pruned} known IDs not seen for ${KNOWN_ID_MAX_AGE_MS / (24 * 60 * 60 * 1000)} days`);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Point all run-scoped keys at a namespace
+   */
+  private setNamespace(runId: string | null): void {
+    const prefix = runId ? this.getRunPrefix(runId) : this.basePrefix;
+    this.queueKey = `${prefix}:queue`;
+    this.allIdsKey = `${prefix}:all_ids`;
+    this.processedIdsKey = `${prefix}:processed`;
+    this.failedIdsKey = `${prefix}:failed`;
+    this.retriesKey = `${prefix}:retries`;
+    this.statsKey = `${prefix}:stats`;
+    this.payloadsKey = `${prefix}:payloads`;
+    this.processingPrefix = `${prefix}:processing`;
+    this.processingWorkersKey = `${prefix}:processing_workers`;
+    this.claimsKey = `${prefix}:claims`;
+    this.delayedKey = `${prefix}:delayed`;
+    this.deadLetterKey = `${prefix}:dead_letter`;
+    this.discoveryKey = `${prefix}:discovery`;
+    this.plannedKey = `${prefix}:planned`;
+    this.checkpointsKey = `${prefix}:checkpoints`;
+    this.scopeIdsPrefix = `${prefix}:scope_ids`;
+    this.partialScopesKey = `${prefix}:partial_scopes`;
+    this.truncatedScopesKey = `${prefix}:truncated_scopes`;
+    this.schemaDriftKey = `${prefix}:schema_drift`;
+  }
+
+  /**
+   * Get key prefix for a run
+   */
+  private getRunPrefix(runId: string): string {
+    return `${this.basePrefix}:run:${runId}`;
+  }
+
+  /**
+   * Get run record key
+   */
+  private getRunRecordKey(runId: string): string {
+    return `${this.runsKey}:${runId}`;
+  }
+
+  /**
+   * Get processing list key for a worker
+   */
+  private getProcessingKey(workerId: string): string {
+    return `${this.processingPrefix}:${workerId}`;
   }
 
   /**
@@ -293,3 +1294,44 @@ export class RedisQueue {
     return this.redis.status === 'ready';
   }
 }
+
+/**
+ * Compute backoff delay for a retry attempt (exponential with equal jitter)
+ */
+export function computeRetryDelay(
+  attempt: number,
+  baseDelayMs: number = RETRY_BASE_DELAY_MS,
+  maxDelayMs: number = RETRY_MAX_DELAY_MS
+): number {
+  const exponential = Math.min(baseDelayMs * Math.pow(2, Math.max(attempt - 1, 0)), maxDelayMs);
+  return Math.floor(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * Generate a sortable run ID from the current time (e.g. 20260219T143000)
+ */
+export function generateRunId(date: Date = new Date()): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\..+$/, '');
+}
+
+function serializeRunRecord(record: RunRecord): Record<string, string> {
+  const hash: Record<string, string> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (value !== undefined) hash[key] = String(value);
+  }
+  return hash;
+}
+
+function deserializeRunRecord(hash: Record<string, string>): RunRecord {
+  const toNumber = (value?: string) => value !== undefined ? parseInt(value, 10) : undefined;
+  return {
+    runId: hash.runId,
+    status: hash.status as RunStatus,
+    startedAt: hash.startedAt,
+    discoveryFinishedAt: hash.discoveryFinishedAt,
+    finishedAt: hash.finishedAt,
+    totalDiscovered: toNumber(hash.totalDiscovered),
+    processedCount: toNumber(hash.processedCount),
+    failedCount: toNumber(hash.failedCount)
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Rent Cost Breakdown
+ *
+ * IS24 reports rent in several parts: base rent (Kaltmiete), service charges
+ * (Nebenkosten), heating costs (Heizkosten, often included in the service
+ * charges), total rent (Warmmiete) and the deposit (Kaution), which is
+ * either an amount or free text such as "3 Kaltmieten". Rental listings
+ * carry these as Property.rentCosts; a listing's price is its base rent,
+ * or its total rent when no base rent is given.
+ *
+ * The parts travel to the Core Service in country_specific (kaltmiete,
+ * nebenkosten, heizkosten, heizkosten_in_nebenkosten, warmmiete, kaution,
+ * kaution_text). A total rent computed from the parts is flagged with
+ * warmmiete_berechnet. Amounts are in the listing's original currency.
+ */
+
+import { RentCosts } from './shared-types';
+import { InterpretedAttributes, parseNumbers } from './attribute-parser';
+
+// Deposits given as a multiple of the rent ("3 Kaltmieten", "2 MM", "drei Monatsmieten")
+const DEPOSIT_MONTHS_PATTERN = /(\d+(?:,\d+)?|eine?|zwei|drei|vier|fünf|sechs)\s*(?:x\s*)?(?:(?:netto|brutto)?(?:kalt|monats|grund)?mieten?\b|(?:mm|km)\b)/i;
+
+// Deposits given as an amount ("1.500 €", "EUR 1500")
+const DEPOSIT_AMOUNT_PATTERN = /(?:€|eur\b)\s*\d[\d.,]*|\d[\d.,]*\s*(?:€|eur\b)/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  ein: 1, eine: 1, zwei: 2, drei: 3, vier: 4, 'fünf': 5, sechs: 6
+};
+
+// Bare numbers up to this are read as months of base rent ("3")
+const MAX_DEPOSIT_MONTHS = 6;
+
+/**
+ * Rent cost breakdown of a realEstate object (REST API and mobile exposes)
+ */
+export function extractRentCosts(realEstate: unknown): RentCosts {
+  const costs: RentCosts = {
+    baseRent: positiveNumber(valueAt(realEstate, 'baseRent')) ?? positiveNumber(valueAt(realEstate, 'price', 'value')),
+    serviceCharge: positiveNumber(valueAt(realEstate, 'serviceCharge')),
+    heatingCosts: positiveNumber(valueAt(realEstate, 'heatingCosts')),
+    heatingIncluded: parseYesNo(valueAt(realEstate, 'heatingCostsInServiceCharge')),
+    totalRent: positiveNumber(valueAt(realEstate, 'totalRent')) ??
+      positiveNumber(valueAt(realEstate, 'calculatedTotalRent', 'totalRent', 'value'))
+  };
+
+  Object.assign(costs, parseDeposit(valueAt(realEstate, 'deposit'), costs.baseRent));
+  return completeRentCosts(costs);
+}
+
+/**
+ * Rent cost breakdown of a mobile search result item's attributes
+ */
+export function rentCostsFromAttributes(attributes: InterpretedAttributes): RentCosts {
+  // The price falls back to the warm rent when no plain price is shown
+  const priceIsWarm = attributes.sources.price !== undefined && attributes.sources.price === attributes.sources.warmRent;
+  const costs: RentCosts = {
+    baseRent: priceIsWarm ? undefined : attributes.price,
+    totalRent: attributes.warmRent
+  };
+
+  for (const attribute of attributes.extraCosts) {
+    const label = attribute.label.toLowerCase();
+    if (/kaution/.test(label)) {
+      Object.assign(costs, parseDeposit(attribute.value, costs.baseRent));
+    } else if (/heizkosten/.test(label)) {
+      costs.heatingCosts = attribute.amount;
+    } else if (/nebenkosten|betriebskosten/.test(label)) {
+      costs.serviceCharge = attribute.amount;
+      if (/inkl|inklusive|einschl/.test(`${label} ${attribute.value.toLowerCase()}`)) {
+        costs.heatingIncluded = true;
+      }
+    }
+  }
+
+  return completeRentCosts(costs);
+}
+
+/**
+ * Parse a deposit given as an amount, a number of months or free text
+ *
+ * An explicit € amount wins over a number of months; months are converted
+ * to an amount when the base rent is known.
+ */
+export function parseDeposit(deposit: unknown, baseRent?: number): Pick<RentCosts, 'deposit' | 'depositMonths' | 'depositText'> {
+  if (typeof deposit === 'number') {
+    return deposit > 0 ? { deposit } : {};
+  }
+  if (typeof deposit !== 'string' || !deposit.trim()) {
+    return {};
+  }
+
+  const text = deposit.trim();
+  const result: Pick<RentCosts, 'deposit' | 'depositMonths' | 'depositText'> = { depositText: text };
+
+  const amountMatch = text.match(DEPOSIT_AMOUNT_PATTERN);
+  const amount = amountMatch ? parseNumbers(amountMatch[0])[0] : undefined;
+
+  let months: number | undefined;
+  const monthsMatch = text.match(DEPOSIT_MONTHS_PATTERN);
+  if (monthsMatch) {
+    const count = monthsMatch[1].toLowerCase();
+    months = NUMBER_WORDS[count] ?? parseFloat(count.replace(',', '.'));
+  } else if (amount === undefined) {
+    const numbers = parseNumbers(text);
+    if (numbers.length > 0 && numbers[0] <= MAX_DEPOSIT_MONTHS) {
+      months = numbers[0];
+    } else if (numbers.length > 0) {
+      result.deposit = numbers[0];
+    }
+  }
+
+  if (months !== undefined && months > 0) {
+    result.depositMonths = months;
+    if (baseRent) {
+      result.deposit = Math.round(months * baseRent * 100) / 100;
+    }
+  }
+
+  if (amount !== undefined && amount > 0) {
+    result.deposit = amount;
+  }
+
+  return result;
+}
+
+/**
+ * Germany-specific rent fields for a listing's country_specific
+ */
+export function buildRentFields(costs: RentCosts): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+
+  if (costs.baseRent !== undefined) fields.kaltmiete = costs.baseRent;
+  if (costs.serviceCharge !== undefined) fields.nebenkosten = costs.serviceCharge;
+  if (costs.heatingCosts !== undefined) fields.heizkosten = costs.heatingCosts;
+  if (costs.heatingIncluded !== undefined) fields.heizkosten_in_nebenkosten = costs.heatingIncluded;
+  if (costs.totalRent !== undefined) fields.warmmiete = costs.totalRent;
+  if (costs.totalRentDerived) fields.warmmiete_berechnet = true;
+  if (costs.deposit !== undefined) fields.kaution = costs.deposit;
+  if (costs.depositText !== undefined) fields.kaution_text = costs.depositText;
+
+  return fields;
+}
+
+/**
+ * Derive the total rent from its parts when it is not given, and drop
+ * unset fields
+ */
+function completeRentCosts(costs: RentCosts): RentCosts {
+  if (costs.totalRent === undefined && costs.baseRent !== undefined && costs.serviceCharge !== undefined) {
+    const heating = costs.heatingIncluded ? 0 : costs.heatingCosts || 0;
+    costs.totalRent = costs.baseRent + costs.serviceCharge + heating;
+    costs.totalRentDerived = true;
+  }
+
+  for (const key of Object.keys(costs) as Array<keyof RentCosts>) {
+    if (costs[key] === undefined) delete costs[key];
+  }
+  return costs;
+}
+
+/**
+ * Value at a path of nested objects (undefined where a step is not an object)
+ */
+export function valueAt(value: unknown, ...path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (typeof current !== 'object' || current === null || Array.isArray(current)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Positive number or undefined
+ */
+export function positiveNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && value > 0 ? value : undefined;
+}
+
+/**
+ * Parse IS24 yes/no values (YES, NO, NOT_APPLICABLE, true, false)
+ */
+export function parseYesNo(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (typeof value !== 'string') return undefined;
+  if (value.toUpperCase() === 'YES' || value.toLowerCase() === 'true') return true;
+  if (value.toUpperCase() === 'NO' || value.toLowerCase() === 'false') return false;
+  return undefined;
+}
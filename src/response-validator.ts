@@ -0,0 +1,415 @@
+/**
+ * API Response Validation
+ *
+ * The mobile and REST API clients used to cast response bodies straight to
+ * their response types, so a null paging object or a livingSpace sent as a
+ * string went into the parsed listings unnoticed. The validators here check
+ * the fields the parsers read and report problems as a ValidationResult with
+ * the path of each field (e.g. resultListItems[3].item.livingSpace):
+ *
+ * - errors: a field the parser relies on is missing, null or of the wrong
+ *   type
+ * - warnings: an optional field is null, or a value is present but unusable
+ *   (e.g. only one of latitude/longitude)
+ *
+ * Callers choose what happens with errors: in strict mode the response is
+ * rejected with a ResponseValidationError, in lenient mode the problems are
+ * logged and the response is parsed anyway.
+ */
+
+import { ValidationResult } from './api-types';
+import { ListingProcessingError, toSnippet } from './errors';
+import { createLogger } from './logger';
+
+const logger = createLogger('ResponseValidator');
+
+export type ValidationMode = 'strict' | 'lenient';
+
+export type ValidatedPayload = 'mobile search' | 'mobile expose' | 'rest search' | 'rest expose';
+
+type JsonObject = Record<string, unknown>;
+
+// Value types the checker distinguishes, and the TypeScript type of each
+interface ValueTypes {
+  object: JsonObject;
+  array: unknown[];
+  string: string;
+  number: number;
+  boolean: boolean;
+}
+
+type ValueType = keyof ValueTypes;
+
+// Errors logged per response in lenient mode
+const MAX_LOGGED_ERRORS = 5;
+
+// Fields of result items and real estates, by expected type
+const MOBILE_ITEM_FIELDS: Record<string, ValueType> = {
+  title: 'string',
+  realEstateType: 'string',
+  published: 'string',
+  energyEfficiencyClass: 'string',
+  isProject: 'boolean',
+  isPrivate: 'boolean',
+  isNewObject: 'boolean',
+  numberOfRooms: 'number',
+  livingSpace: 'number',
+  numberOfBedRooms: 'number',
+  numberOfBathRooms: 'number',
+  floor: 'number',
+  constructionYear: 'number',
+  balcony: 'boolean',
+  garden: 'boolean',
+  cellar: 'boolean',
+  lift: 'boolean',
+  builtInKitchen: 'boolean'
+};
+
+const REAL_ESTATE_FIELDS: Record<string, ValueType> = {
+  '@xsi.type': 'string',
+  title: 'string',
+  description: 'string',
+  livingSpace: 'number',
+  numberOfRooms: 'number',
+  numberOfBedRooms: 'number',
+  numberOfBathRooms: 'number',
+  floor: 'number',
+  numberOfFloors: 'number',
+  baseRent: 'number',
+  serviceCharge: 'number',
+  heatingCosts: 'number',
+  totalRent: 'number',
+  rentalIncome: 'number',
+  constructionYear: 'number',
+  energyEfficiencyClass: 'string',
+  buildingEnergyRatingType: 'string',
+  thermalCharacteristic: 'number',
+  energyConsumptionContainsWarmWater: 'string',
+  condition: 'string',
+  heatingType: 'string',
+  balcony: 'boolean',
+  garden: 'boolean',
+  cellar: 'boolean',
+  lift: 'boolean',
+  builtInKitchen: 'boolean'
+};
+
+const ADDRESS_FIELDS: Record<string, ValueType> = {
+  street: 'string',
+  houseNumber: 'string',
+  postcode: 'string',
+  city: 'string',
+  quarter: 'string'
+};
+
+/**
+ * Raised in strict mode when a response fails validation
+ *
+ * Classified as a parse error, so workers dead-letter the listing instead
+ * of treating it as delisted.
+ */
+export class ResponseValidationError extends ListingProcessingError {
+  constructor(
+    public readonly payload: ValidatedPayload,
+    public readonly result: ValidationResult,
+    responseSnippet?: string
+  ) {
+    super(
+      'parse_error',
+      `Invalid ${payload} response: ${result.errors.length} errors, first: ${describeError(result.errors[0])}`,
+      undefined,
+      responseSnippet
+    );
+    this.name = 'ResponseValidationError';
+  }
+}
+
+/**
+ * Validate a mobile API search response (/search/list)
+ */
+export function validateMobileSearchResponse(data: unknown): ValidationResult {
+  const check = new PayloadChecker();
+  if (!check.value('', data, 'object', true)) return check.finish();
+
+  for (const field of ['totalResults', 'pageSize', 'pageNumber', 'numberOfPages', 'numberOfListings']) {
+    check.value(field, data[field], 'number');
+  }
+
+  const legacy = data.resultlist ?? (isObject(data.searchResponseModel) ? data.searchResponseModel.resultlist : undefined);
+  if (data.resultListItems === undefined && legacy === undefined) {
+    check.error('resultListItems', 'is required', undefined);
+  }
+
+  if (check.value('resultListItems', data.resultListItems, 'array')) {
+    data.resultListItems.forEach((resultItem, idx) => {
+      const path = `resultListItems[${idx}]`;
+      if (!check.value(path, resultItem, 'object', true)) return;
+
+      check.value(`${path}.type`, resultItem.type, 'string');
+      // Other item types (ads, teasers) are not parsed
+      if (resultItem.type !== 'EXPOSE_RESULT') return;
+      checkMobileResultItem(check, `${path}.item`, resultItem.item);
+    });
+  }
+
+  if (data.resultlist !== undefined) {
+    checkLegacyResultList(check, 'resultlist', data.resultlist);
+  } else if (check.value('searchResponseModel', data.searchResponseModel, 'object')) {
+    checkLegacyResultList(check, 'searchResponseModel.resultlist', data.searchResponseModel.resultlist);
+  }
+
+  return check.finish();
+}
+
+/**
+ * Validate a mobile API expose response (/expose/{id})
+ */
+export function validateMobileExposeResponse(data: unknown): ValidationResult {
+  const check = new PayloadChecker();
+  if (check.value('', data, 'object', true) && check.value('expose', data.expose, 'object', true)) {
+    checkRealEstate(check, 'expose.realEstate', data.expose.realEstate);
+  }
+  return check.finish();
+}
+
+/**
+ * Validate a REST API search response (/search/v1.0/search/...)
+ */
+export function validateRestSearchResponse(data: unknown): ValidationResult {
+  const check = new PayloadChecker();
+  if (!check.value('', data, 'object', true)) return check.finish();
+
+  const path = fieldPath('', 'resultlist.resultlist');
+  const resultlist = data['resultlist.resultlist'];
+  if (!check.value(path, resultlist, 'object', true)) return check.finish();
+
+  if (check.value(`${path}.paging`, resultlist.paging, 'object', true)) {
+    check.value(`${path}.paging.numberOfHits`, resultlist.paging.numberOfHits, 'number', true);
+    for (const field of ['pageNumber', 'pageSize', 'numberOfPages', 'numberOfListings']) {
+      check.value(`${path}.paging.${field}`, resultlist.paging[field], 'number');
+    }
+  }
+
+  checkResultlistEntries(check, `${path}.resultlistEntries`, resultlist.resultlistEntries);
+  return check.finish();
+}
+
+/**
+ * Validate a REST API expose response (/expose/v1.0/exposes/{id})
+ */
+export function validateRestExposeResponse(data: unknown): ValidationResult {
+  const check = new PayloadChecker();
+  if (check.value('', data, 'object', true) && check.value('expose', data.expose, 'object', true)) {
+    checkRealEstate(check, 'expose.realEstate', data.expose.realEstate);
+  }
+  return check.finish();
+}
+
+/**
+ * Act on a validation result: throw in strict mode, log in lenient mode
+ *
+ * Warnings are only logged with DEBUG=true.
+ *
+ * @param data Response body, kept as a snippet on the error
+ */
+export function enforceValidation(
+  payload: ValidatedPayload,
+  result: ValidationResult,
+  mode: ValidationMode,
+  data?: unknown
+): void {
+  for (const warning of result.warnings) {
+    logger.debug(`${payload}: ${warning.field || '(root)'}: ${warning.warning}`);
+  }
+  if (result.valid) return;
+
+  if (mode === 'strict') {
+    throw new ResponseValidationError(payload, result, toSnippet(data));
+  }
+
+  for (const error of result.errors.slice(0, MAX_LOGGED_ERRORS)) {
+    logger.warn(`${payload}: ${describeError(error)}`);
+  }
+  if (result.errors.length > MAX_LOGGED_ERRORS) {
+    logger.warn(`${payload}: ... and ${result.errors.length - MAX_LOGGED_ERRORS} more errors`);
+  }
+}
+
+/**
+ * Collects errors and warnings while walking a payload
+ */
+class PayloadChecker {
+  private result: ValidationResult = { valid: true, errors: [], warnings: [] };
+
+  /**
+   * Check the type of a value
+   *
+   * Missing optional values pass; null optional values pass with a warning.
+   * Returns true when the value is present and of the expected type.
+   */
+  value<T extends ValueType>(path: string, value: unknown, type: T, required: boolean = false): value is ValueTypes[T] {
+    if (value === undefined || value === null) {
+      if (required) {
+        this.error(path, 'is required', value);
+      } else if (value === null) {
+        this.warning(path, 'is null');
+      }
+      return false;
+    }
+
+    if (typeOf(value) !== type) {
+      this.error(path, `must be ${type === 'array' || type === 'object' ? 'an' : 'a'} ${type}, got ${typeOf(value)}`, value);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Check the types of the listed fields of an object
+   */
+  fields(path: string, object: JsonObject, fields: Record<string, ValueType>): void {
+    for (const [field, type] of Object.entries(fields)) {
+      this.value(fieldPath(path, field), object[field], type);
+    }
+  }
+
+  error(path: string, error: string, value: unknown): void {
+    this.result.errors.push({ field: path, error, value });
+  }
+
+  warning(path: string, warning: string): void {
+    this.result.warnings.push({ field: path, warning });
+  }
+
+  finish(): ValidationResult {
+    this.result.valid = this.result.errors.length === 0;
+    return this.result;
+  }
+}
+
+/**
+ * Check a mobile API result item
+ */
+function checkMobileResultItem(check: PayloadChecker, path: string, item: unknown): void {
+  if (!check.value(path, item, 'object', true)) return;
+
+  check.value(`${path}.id`, item.id, 'string', true);
+  check.fields(path, item, MOBILE_ITEM_FIELDS);
+
+  if (check.value(`${path}.address`, item.address, 'object')) {
+    check.fields(`${path}.address`, item.address, { line: 'string', postcode: 'string', city: 'string', quarter: 'string' });
+    checkCoordinates(check, `${path}.address`, item.address, 'lat', 'lon');
+  }
+
+  if (check.value(`${path}.attributes`, item.attributes, 'array')) {
+    item.attributes.forEach((attribute, idx) => {
+      const attributePath = `${path}.attributes[${idx}]`;
+      if (check.value(attributePath, attribute, 'object', true)) {
+        check.fields(attributePath, attribute, { label: 'string', value: 'string' });
+      }
+    });
+  }
+}
+
+/**
+ * Check a legacy result list (mobile API) - same shape as the REST one,
+ * paging.current instead of paging.pageNumber
+ */
+function checkLegacyResultList(check: PayloadChecker, path: string, resultlist: unknown): void {
+  if (!check.value(path, resultlist, 'object', true)) return;
+
+  if (check.value(`${path}.paging`, resultlist.paging, 'object', true)) {
+    check.value(`${path}.paging.numberOfHits`, resultlist.paging.numberOfHits, 'number', true);
+    for (const field of ['current', 'pageSize', 'numberOfPages']) {
+      check.value(`${path}.paging.${field}`, resultlist.paging[field], 'number');
+    }
+  }
+
+  checkResultlistEntries(check, `${path}.resultlistEntries`, resultlist.resultlistEntries);
+}
+
+/**
+ * Check the entry groups of a result list
+ *
+ * A single entry serialized as an object instead of a one-element array is
+ * an error: the parsers only iterate arrays.
+ */
+function checkResultlistEntries(check: PayloadChecker, path: string, groups: unknown): void {
+  if (!check.value(path, groups, 'array')) return;
+
+  groups.forEach((group, groupIdx) => {
+    const groupPath = `${path}[${groupIdx}]`;
+    if (!check.value(groupPath, group, 'object', true)) return;
+    if (!check.value(`${groupPath}.resultlistEntry`, group.resultlistEntry, 'array')) return;
+
+    group.resultlistEntry.forEach((entry, idx) => {
+      const entryPath = `${groupPath}.resultlistEntry[${idx}]`;
+      if (!check.value(entryPath, entry, 'object', true)) return;
+
+      check.value(fieldPath(entryPath, '@id'), entry['@id'], 'string', true);
+      checkRealEstate(check, `${entryPath}.realEstate`, entry.realEstate);
+    });
+  });
+}
+
+/**
+ * Check a real estate object (REST API and legacy mobile format)
+ */
+function checkRealEstate(check: PayloadChecker, path: string, realEstate: unknown): void {
+  if (!check.value(path, realEstate, 'object', true)) return;
+
+  check.fields(path, realEstate, REAL_ESTATE_FIELDS);
+
+  if (check.value(`${path}.address`, realEstate.address, 'object')) {
+    check.fields(`${path}.address`, realEstate.address, ADDRESS_FIELDS);
+    const coordinatePath = `${path}.address.wgs84Coordinate`;
+    if (check.value(coordinatePath, realEstate.address.wgs84Coordinate, 'object')) {
+      checkCoordinates(check, coordinatePath, realEstate.address.wgs84Coordinate, 'latitude', 'longitude');
+    }
+  }
+
+  if (check.value(`${path}.price`, realEstate.price, 'object')) {
+    check.fields(`${path}.price`, realEstate.price, { value: 'number', currency: 'string', marketingType: 'string' });
+  }
+
+  const totalRentPath = `${path}.calculatedTotalRent.totalRent`;
+  if (check.value(`${path}.calculatedTotalRent`, realEstate.calculatedTotalRent, 'object') &&
+      check.value(totalRentPath, realEstate.calculatedTotalRent.totalRent, 'object')) {
+    check.value(`${totalRentPath}.value`, realEstate.calculatedTotalRent.totalRent.value, 'number');
+  }
+}
+
+/**
+ * Check a coordinate pair; one coordinate without the other is unusable
+ */
+function checkCoordinates(check: PayloadChecker, path: string, object: JsonObject, latField: string, lonField: string): void {
+  const hasLat = check.value(`${path}.${latField}`, object[latField], 'number');
+  const hasLon = check.value(`${path}.${lonField}`, object[lonField], 'number');
+  if (hasLat !== hasLon) {
+    check.warning(path, hasLat ? `has ${latField} without ${lonField}` : `has ${lonField} without ${latField}`);
+  }
+}
+
+/**
+ * Path of a field below a parent path; keys that are not identifiers
+ * (e.g. "@id", "resultlist.resultlist") are bracketed
+ */
+function fieldPath(parent: string, key: string): string {
+  if (!/^[A-Za-z_$][\w$]*$/.test(key)) return `${parent}['${key}']`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeOf(value) === 'object';
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function describeError(error?: ValidationResult['errors'][number]): string {
+  if (!error) return 'none';
+  return `${error.field || '(root)'}: ${error.error} (${toSnippet(error.value) ?? String(error.value)})`;
+}
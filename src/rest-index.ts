@@ -16,14 +16,20 @@ import { Property, ScraperResult } from './shared-types';
 import * as fs from 'fs';
 import * as path from 'path';
 import { createLogger } from './logger';
+import { parseNear, loadGeoJsonShape, describeArea } from './geo-search';
+import { PROPERTY_KINDS, PropertyKind, isPropertyKind } from './real-estate-types';
+import { loadKnownIds } from './incremental';
 
 const logger = createLogger('module');
 
 interface CliOptions {
   transactionType?: 'sale' | 'rent' | 'all';
-  propertyType?: 'apartment' | 'house' | 'all';
+  propertyType?: PropertyKind | 'all';
   city?: string;
   cities?: string[];
+  near?: string;
+  radius?: number;
+  shape?: string;
   priceMin?: number;
   priceMax?: number;
   sqmMin?: number;
@@ -35,6 +41,8 @@ interface CliOptions {
   output?: string;
   format?: 'json' | 'csv';
   verbose?: boolean;
+  since?: Date;
+  known?: string;
   hasBalcony?: boolean;
   hasGarden?: boolean;
   hasKitchen?: boolean;
@@ -59,7 +67,11 @@ function parseArgs(): CliOptions {
         break;
       case '-p':
       case '--property-type':
-        options.propertyType = args[++i] as 'apartment' | 'house' | 'all';
+        options.propertyType = args[++i] as PropertyKind | 'all';
+        if (options.propertyType !== 'all' && !isPropertyKind(options.propertyType)) {
+          logger.error(`Unknown property type: ${options.propertyType} (${PROPERTY_KINDS.join(', ')}, all)`);
+          process.exit(1);
+        }
         break;
       case '-c':
       case '--city':
@@ -73,6 +85,15 @@ function parseArgs(): CliOptions {
       case '--cities':
         options.cities = args[++i].split(',').map(c => c.trim());
         break;
+      case '--near':
+        options.near = args[++i];
+        break;
+      case '--radius':
+        options.radius = parseFloat(args[++i]);
+        break;
+      case '--shape':
+        options.shape = args[++i];
+        break;
       case '--price-min':
         options.priceMin = parseInt(args[++i], 10);
         break;
@@ -111,6 +132,16 @@ function parseArgs(): CliOptions {
       case '--verbose':
         options.verbose = true;
         break;
+      case '--since':
+        options.since = new Date(args[++i]);
+        if (isNaN(options.since.getTime())) {
+          logger.error(`Invalid date for --since: ${args[i]}`);
+          process.exit(1);
+        }
+        break;
+      case '--known':
+        options.known = args[++i];
+        break;
       case '--no-normalize':
         options.normalize = false;
         break;
@@ -153,13 +184,19 @@ Usage: npx ts-node src/rest-index.ts [options]
 
 Options:
   -t, --transaction <type>    Transaction type: sale, rent, or all (default: all)
-  -p, --property-type <type>  Property type: apartment, house, or all (default: all)
+  -p, --property-type <type>  Property type: apartment, house, land, garage, office,
+                              retail, gastronomy, industrial, investment, short_term,
+                              flat_share, new_build, or all (default: apartment and house)
   -c, --city <name>           City: Berlin, Munich, Hamburg, Frankfurt, Cologne, Stuttgart, etc.
   --cities <names>            Multiple cities (comma-separated)
+  --near <lat,lon>            Radius search around a point
+  --radius <km>               Radius for --near in km (default: 5)
+  --shape <file.geojson>      Polygon search within a GeoJSON polygon
   --price-min <amount>        Minimum price in EUR
   --price-max <amount>        Maximum price in EUR
-  --sqm-min <sqm>             Minimum living space in sqm
-  --sqm-max <sqm>             Maximum living space in sqm
+  --sqm-min <sqm>             Minimum size in sqm (living space, plot area for land,
+                              floor space for commercial types)
+  --sqm-max <sqm>             Maximum size in sqm
   --rooms-min <n>             Minimum number of rooms
   --rooms-max <n>             Maximum number of rooms
   -m, --max-pages <n>         Maximum pages to scrape (default: 5)
@@ -167,6 +204,8 @@ Options:
   -o, --output <file>         Output file path
   -f, --format <format>       Output format: json or csv (default: json)
   -v, --verbose               Enable verbose logging
+  --since <date>              Only listings published since date (newest first)
+  --known <file.json>         Stop paging at listings in a previous JSON output
   --no-normalize              Skip data normalization
   --balcony                   Only properties with balcony
   --garden                    Only properties with garden
@@ -196,9 +235,18 @@ Examples:
   # Scrape with complex filters
   npx ts-node src/rest-index.ts --city Berlin --property apartment --rooms-min 2 --sqm-min 80 --balcony
 
+  # Only listings new since yesterday's run
+  npx ts-node src/rest-index.ts --city Berlin -t rent --since 2024-01-15T06:00 --known yesterday.json
+
   # Scrape and save to file
   npx ts-node src/rest-index.ts --city Berlin -l 1000 -o results.json
 
+  # Scrape within 10 km of Munich Marienplatz
+  npx ts-node src/rest-index.ts --near 48.137,11.575 --radius 10 -t rent
+
+  # Scrape within a catchment area
+  npx ts-node src/rest-index.ts --shape area.geojson -t sale
+
   # Scrape multiple cities
   npx ts-node src/rest-index.ts --cities Berlin,Munich,Hamburg -t sale -p apartment -l 5000
 
@@ -229,6 +277,8 @@ function propertiesToCsv(properties: Property[]): string {
     'transactionType', 'city', 'district', 'address', 'postcode',
     'lat', 'lon', 'sqm', 'rooms', 'bedrooms', 'bathrooms', 'floor',
     'totalFloors', 'constructionYear', 'age', 'condition', 'heating',
+    'commissionFree', 'commissionRate', 'commission', 'hausgeld', 'rented',
+    'rentalIncome', 'state', 'transferTax', 'notaryFees', 'acquisitionCost',
     'features', 'agent', 'agency', 'url', 'scrapedAt'
   ];
 
@@ -260,6 +310,16 @@ function propertiesToCsv(properties: Property[]): string {
       age,
       p.metadata?.condition || '',
       p.metadata?.heatingType || '',
+      p.purchaseCosts?.commissionFree ?? '',
+      p.purchaseCosts?.commissionRate ?? '',
+      p.purchaseCosts?.commission ?? '',
+      p.purchaseCosts?.hausgeld ?? '',
+      p.purchaseCosts?.rented ?? '',
+      p.purchaseCosts?.rentalIncome ?? '',
+      p.purchaseCosts?.state || '',
+      p.purchaseCosts?.transferTax ?? '',
+      p.purchaseCosts?.notaryFees ?? '',
+      p.purchaseCosts?.totalCost ?? '',
       `"${p.features.join('; ')}"`,
       p.agent?.name || '',
       p.agent?.agency || '',
@@ -298,6 +358,8 @@ async function main(): Promise<void> {
     roomsMin: options.roomsMin,
     roomsMax: options.roomsMax,
     verbose: options.verbose,
+    since: options.since,
+    hasKnownIds: options.known ? loadKnownIds(options.known) : undefined,
     features: {
       balcony: options.hasBalcony,
       garden: options.hasGarden,
@@ -315,12 +377,24 @@ async function main(): Promise<void> {
   }
 
   // Set property types
-  if (options.propertyType && options.propertyType !== 'all') {
+  if (options.propertyType === 'all') {
+    scraperOptions.propertyTypes = PROPERTY_KINDS;
+  } else if (options.propertyType) {
     scraperOptions.propertyTypes = [options.propertyType];
   }
 
-  // Set cities
-  if (options.cities) {
+  // Set area or cities
+  if (options.near || options.shape) {
+    try {
+      scraperOptions.area = options.shape
+        ? loadGeoJsonShape(options.shape)
+        : parseNear(options.near!, options.radius || 5);
+    } catch (error) {
+      logger.error(`Invalid search area: ${(error as Error).message}`);
+      process.exit(1);
+    }
+    logger.info(`Area: ${describeArea(scraperOptions.area!)}`);
+  } else if (options.cities) {
     scraperOptions.cities = options.cities;
   } else if (options.city) {
     scraperOptions.cities = [options.city];
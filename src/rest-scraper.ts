@@ -15,6 +15,24 @@ import {
   buildSpaceRange,
   buildRoomsRange
 } from './api-client';
+import { ScrapeSearchOptions } from './scraper';
+import { ListingProvider, SearchFilters, SearchQuery } from './listing-provider';
+import { RateLimiter } from './rate-limiter';
+import { describeGeocodeEntry, getGeocodeRegistry, hasGeocode, toRestGeocode } from './geocode-registry';
+import { GeoArea, buildLocationParams, describeLocation } from './geo-search';
+import {
+  KnownIdCheck,
+  REST_NEWEST_FIRST,
+  applyIncrementalCutoff,
+  formatFirstActivation
+} from './incremental';
+import {
+  PropertyKind,
+  buildTypeFilters,
+  getRestRealEstateType,
+  getTypeSearchParams,
+  supportsTransaction
+} from './real-estate-types';
 import { createLogger } from './logger';
 
 const logger = createLogger('IS24RestScraper');
@@ -26,7 +44,18 @@ export enum GermanPropertyType {
   WOHNUNG = 'ApartmentBuy',           // Apartment for sale
   WOHNUNG_MIETE = 'ApartmentRent',    // Apartment for rent
   HAUS = 'HouseBuy',                   // House for sale
-  HAUS_MIETE = 'HouseRent'             // House for rent
+  HAUS_MIETE = 'HouseRent',            // House for rent
+  GRUNDSTUECK = 'LivingBuySite',       // Plot for sale
+  GRUNDSTUECK_PACHT = 'LivingRentSite', // Plot for lease
+  GARAGE = 'GarageBuy',                // Garage / parking space for sale
+  GARAGE_MIETE = 'GarageRent',         // Garage / parking space for rent
+  BUERO = 'Office',                    // Office / practice (sale and rent)
+  EINZELHANDEL = 'Store',              // Retail (sale and rent)
+  GASTRONOMIE = 'Gastronomy',          // Gastronomy / hotel (sale and rent)
+  HALLE = 'Industry',                  // Hall / production (sale and rent)
+  ANLAGEOBJEKT = 'Investment',         // Investment property
+  WOHNEN_AUF_ZEIT = 'ShortTermAccommodation', // Furnished temporary living
+  WG_ZIMMER = 'FlatShareRoom'          // Flat share room
 }
 
 /**
@@ -82,18 +111,22 @@ export const GERMAN_DISTRICTS: Record<string, Record<string, string>> = {
  */
 export interface RestScraperOptions {
   transactionTypes?: ('sale' | 'rent')[];
-  propertyTypes?: ('apartment' | 'house')[];
+  propertyTypes?: PropertyKind[];
   cities?: string[];
   geocodes?: string[];
+  area?: GeoArea;           // Radius or polygon (instead of cities/geocodes)
   priceMin?: number;
   priceMax?: number;
-  sqmMin?: number;
+  sqmMin?: number;          // Size filter of the type (living space, plot area or floor space)
   sqmMax?: number;
   roomsMin?: number;
   roomsMax?: number;
   maxPages?: number;
   pageSize?: number;
   rateLimit?: number;
+  rateLimiter?: RateLimiter; // Shared limiter acquired before every HTTP call
+  since?: Date;             // Incremental: only listings activated since (newest first)
+  hasKnownIds?: KnownIdCheck; // Incremental: stop paging after a page with a known ID
   verbose?: boolean;
   features?: {
     balcony?: boolean;
@@ -106,41 +139,35 @@ export interface RestScraperOptions {
   };
 }
 
+type ResolvedRestScraperOptions = Required<Omit<RestScraperOptions, 'rateLimiter' | 'area' | 'since' | 'hasKnownIds'>> &
+  Pick<RestScraperOptions, 'area' | 'since' | 'hasKnownIds'>;
+
 /**
  * Rest Scraper for ImmobilienScout24
  */
-export class IS24RestScraper {
+export class IS24RestScraper implements ListingProvider {
+  readonly name = 'rest' as const;
   private client: IS24RestApiClient;
-  private options: Required<RestScraperOptions>;
+  private options: ResolvedRestScraperOptions;
   private logger = createLogger('IS24RestScraper');
 
-  private readonly defaultGeocodes: Record<string, string> = {
-    'Berlin': '1276003001046',
-    'Munich': '1276009162046',
-    'Hamburg': '1276002000046',
-    'Frankfurt': '1276006412046',
-    'Cologne': '1276005315046',
-    'Stuttgart': '1276008403046',
-    'Düsseldorf': '1276004164046',
-    'Dortmund': '1276000862046',
-    'Essen': '1276003640046',
-    'Leipzig': '1276007339046'
-  };
-
   constructor(options: RestScraperOptions = {}) {
     this.options = this.mergeOptions(options);
-    this.client = IS24RestApiClient.fromEnv();
+    this.client = IS24RestApiClient.fromEnv(options.rateLimiter);
   }
 
   /**
    * Merge user options with defaults
    */
-  private mergeOptions(options: RestScraperOptions): Required<RestScraperOptions> {
+  private mergeOptions(options: RestScraperOptions): ResolvedRestScraperOptions {
     return {
       transactionTypes: options.transactionTypes || ['sale', 'rent'],
       propertyTypes: options.propertyTypes || ['apartment', 'house'],
       cities: options.cities || [],
       geocodes: options.geocodes || [],
+      area: options.area,
+      since: options.since,
+      hasKnownIds: options.hasKnownIds,
       priceMin: options.priceMin || 0,
       priceMax: options.priceMax || 0,
       sqmMin: options.sqmMin || 0,
@@ -172,14 +199,20 @@ export class IS24RestScraper {
   }
 
   /**
-   * Map transaction type to API type
+   * Map property and transaction type to API type
+   */
+  private getApiRealEstateType(propertyType: PropertyKind, transactionType: 'sale' | 'rent'): string {
+    return getRestRealEstateType(propertyType, transactionType);
+  }
+
+  /**
+   * Build type name and type-specific parameters for a search
    */
-  private getApiRealEstateType(propertyType: 'apartment' | 'house', transactionType: 'sale' | 'rent'): string {
-    const map: Record<string, Record<string, string>> = {
-      apartment: { sale: 'ApartmentBuy', rent: 'ApartmentRent' },
-      house: { sale: 'HouseBuy', rent: 'HouseRent' }
+  private buildTypeParams(propertyType: PropertyKind, transactionType: 'sale' | 'rent'): IS24ApiSearchParams {
+    return {
+      realestatetype: this.getApiRealEstateType(propertyType, transactionType),
+      ...getTypeSearchParams(propertyType, transactionType)
     };
-    return map[propertyType]?.[transactionType] || 'ApartmentBuy';
   }
 
   /**
@@ -195,31 +228,38 @@ export class IS24RestScraper {
 
     const seenIds = new Set<string>();
 
-    // Determine geocodes to search
-    const geocodes = this.getGeocodes();
+    // Determine locations to search (area, or geocodes from cities)
+    const locations: (string | GeoArea)[] = this.options.area ? [this.options.area] : this.getGeocodes();
 
-    if (geocodes.length === 0) {
-      result.errors.push('No geocodes specified. Please set cities or provide geocodes.');
+    if (locations.length === 0) {
+      result.errors.push('No geocodes specified. Please set cities, geocodes or an area.');
       return result;
     }
 
     // Iterate through combinations
     for (const transactionType of this.options.transactionTypes) {
       for (const propertyType of this.options.propertyTypes) {
+        if (!supportsTransaction(propertyType, transactionType)) {
+          this.log(`Skipping ${propertyType} (${transactionType}): not offered on IS24`);
+          continue;
+        }
         const realEstateType = this.getApiRealEstateType(propertyType, transactionType);
 
-        for (const geocode of geocodes) {
+        for (const location of locations) {
           try {
             const startTime = Date.now();
-            this.log(`Scraping ${realEstateType} in geocode ${geocode}...`);
+            this.log(`Scraping ${realEstateType} in ${describeLocation(location)}...`);
 
             const searchParams: IS24ApiSearchParams = {
-              realestatetype: realEstateType,
-              geocodes: geocode,
+              ...this.buildTypeParams(propertyType, transactionType),
+              ...restLocationParams(location),
               pagesize: this.options.pageSize,
-              price: buildPriceRange(this.options.priceMin, this.options.priceMax),
-              livingspace: buildSpaceRange(this.options.sqmMin, this.options.sqmMax),
-              numberofrooms: buildRoomsRange(this.options.roomsMin, this.options.roomsMax),
+              ...incrementalParams(this.options.since),
+              ...buildTypeFilters(propertyType, {
+                price: buildPriceRange(this.options.priceMin, this.options.priceMax),
+                area: buildSpaceRange(this.options.sqmMin, this.options.sqmMax),
+                rooms: buildRoomsRange(this.options.roomsMin, this.options.roomsMax)
+              }),
               ...(this.options.features?.balcony && { balcony: true }),
               ...(this.options.features?.garden && { garden: true }),
               ...(this.options.features?.builtInKitchen && { builtinkitchen: true }),
@@ -245,8 +285,14 @@ export class IS24RestScraper {
                   result.totalFound = Math.max(result.totalFound, categoryTotal);
                 }
 
+                const { properties: pageProperties, reachedEnd } = await applyIncrementalCutoff(
+                  searchResult.properties,
+                  this.options.since,
+                  this.options.hasKnownIds
+                );
+
                 // Add properties
-                for (const property of searchResult.properties) {
+                for (const property of pageProperties) {
                   if (!seenIds.has(property.id)) {
                     seenIds.add(property.id);
                     result.properties.push(property);
@@ -255,7 +301,7 @@ export class IS24RestScraper {
 
                 result.pagesScraped++;
 
-                hasMore = page < searchResult.numberOfPages && searchResult.properties.length > 0;
+                hasMore = page < searchResult.numberOfPages && searchResult.properties.length > 0 && !reachedEnd;
                 page++;
 
                 if (hasMore) {
@@ -291,49 +337,129 @@ export class IS24RestScraper {
    */
   async scrapeSearch(
     transactionType: 'sale' | 'rent',
-    propertyType: 'apartment' | 'house',
-    geocode: string,
-    maxResults: number = 1000
+    propertyType: PropertyKind,
+    location: string | GeoArea,
+    maxResults: number = 1000,
+    filters: SearchFilters = {},
+    options: ScrapeSearchOptions = {}
   ): Promise<Property[]> {
     const properties: Property[] = [];
     const seenIds = new Set<string>();
-    const realEstateType = this.getApiRealEstateType(propertyType, transactionType);
+    const typeParams = this.buildTypeParams(propertyType, transactionType);
     const maxPages = Math.ceil(maxResults / this.options.pageSize);
 
-    let page = 1;
+    let page = options.startPage || 1;
     let hasMore = true;
 
     while (hasMore && page <= maxPages && properties.length < maxResults) {
       try {
         const searchResult = await this.client.search({
-          realestatetype: realEstateType,
-          geocodes: geocode,
+          ...typeParams,
+          ...restLocationParams(location),
           pagenumber: page,
-          pagesize: this.options.pageSize
+          pagesize: this.options.pageSize,
+          ...incrementalParams(options.since),
+          ...filters
         });
+        const cutoff = await applyIncrementalCutoff(searchResult.properties, options.since, options.hasKnownIds);
 
-        for (const property of searchResult.properties) {
+        const pageProperties: Property[] = [];
+        for (const property of cutoff.properties) {
           if (!seenIds.has(property.id) && properties.length < maxResults) {
             seenIds.add(property.id);
             properties.push(property);
+            pageProperties.push(property);
           }
         }
 
-        hasMore = page < searchResult.numberOfPages && searchResult.properties.length > 0;
+        if (options.onPage) {
+          await options.onPage(page, pageProperties);
+        }
+
+        hasMore = page < searchResult.numberOfPages && searchResult.properties.length > 0 && !cutoff.reachedEnd;
         page++;
 
         if (hasMore) {
           await this.sleep(this.options.rateLimit);
         }
       } catch (error) {
+        if (options.throwOnError) {
+          throw error;
+        }
         this.log(`Error on page ${page}: ${error}`);
+        hasMore = false;
         break;
       }
     }
 
+    if (hasMore && options.onTruncated) {
+      await options.onTruncated();
+    }
+
     return properties;
   }
 
+  /**
+   * Check whether OAuth credentials are configured
+   */
+  hasCredentials(): boolean {
+    return this.client.hasCredentials();
+  }
+
+  /**
+   * Get hit count for a search (ListingProvider)
+   *
+   * The REST API has no count endpoint; a one-item page carries the total.
+   */
+  async countListings(query: SearchQuery): Promise<number> {
+    const result = await this.client.search({
+      ...this.buildTypeParams(query.propertyType, query.transactionType),
+      ...restLocationParams(query.area || query.geocode),
+      pagesize: 1,
+      ...query.filters
+    });
+    return result.totalHits;
+  }
+
+  /**
+   * Page through a search (ListingProvider)
+   *
+   * IDs are prefixed like mobile API IDs so queue entries match.
+   */
+  async searchListings(
+    query: SearchQuery,
+    maxResults: number,
+    options: ScrapeSearchOptions = {}
+  ): Promise<Property[]> {
+    const location = query.area || query.geocode;
+    if (!location) {
+      throw new Error('REST search needs a geocode or an area');
+    }
+
+    const { onPage, hasKnownIds } = options;
+    const properties = await this.scrapeSearch(
+      query.transactionType,
+      query.propertyType,
+      location,
+      maxResults,
+      query.filters,
+      {
+        ...options,
+        onPage: onPage && ((page, pageProperties) => onPage(page, pageProperties.map(withListingId))),
+        hasKnownIds: hasKnownIds && (ids => hasKnownIds(ids.map(toListingId)))
+      }
+    );
+    return properties.map(withListingId);
+  }
+
+  /**
+   * Fetch one listing by expose ID (ListingProvider)
+   */
+  async getExpose(exposeId: string): Promise<Property | null> {
+    const property = await this.client.getExpose(exposeId);
+    return property ? withListingId(property) : null;
+  }
+
   /**
    * Get geocodes from cities or use provided geocodes
    */
@@ -344,13 +470,18 @@ export class IS24RestScraper {
 
     const geocodes: string[] = [];
     for (const city of this.options.cities) {
-      const geocode = this.defaultGeocodes[city];
-      if (geocode) {
-        geocodes.push(geocode);
-        this.log(`City ${city} -> geocode ${geocode}`);
-      } else {
+      const entries = getGeocodeRegistry().resolve(city);
+      if (entries.length === 0) {
         this.logger.warn(`Unknown city: ${city}`);
       }
+      for (const entry of entries) {
+        if (hasGeocode(entry)) {
+          geocodes.push(entry.restGeocode);
+          this.log(`City ${city} -> ${entry.name} (geocode ${entry.restGeocode})`);
+        } else {
+          this.logger.warn(`No geocode for ${city} -> ${describeGeocodeEntry(entry)}`);
+        }
+      }
     }
 
     return geocodes;
@@ -360,7 +491,7 @@ export class IS24RestScraper {
    * Get available cities
    */
   getAvailableCities(): string[] {
-    return Object.keys(this.defaultGeocodes);
+    return getGeocodeRegistry().getGeocodedEntries().map(entry => entry.name);
   }
 
   /**
@@ -395,4 +526,37 @@ export class IS24RestScraper {
   }
 }
 
+/**
+ * Build REST location parameters (geocodes are converted to the 13-digit format)
+ */
+function restLocationParams(location?: string | GeoArea): Pick<IS24ApiSearchParams, 'geocodes' | 'geocoordinates' | 'shape'> {
+  const { geocodes, geocoordinates, shape } = buildLocationParams(location);
+  return {
+    geocodes: geocodes && toRestGeocode(geocodes),
+    geocoordinates,
+    shape
+  };
+}
+
+/**
+ * Incremental search parameters: newest first, activated since the cutoff
+ */
+function incrementalParams(since?: Date): Pick<IS24ApiSearchParams, 'firstactivation' | 'sorting'> {
+  return since ? { firstactivation: formatFirstActivation(since), sorting: REST_NEWEST_FIRST } : {};
+}
+
+/**
+ * Queue ID of a REST listing ID
+ */
+function toListingId(id: string): string {
+  return id.startsWith('is24-') ? id : `is24-${id}`;
+}
+
+/**
+ * Prefix a REST listing ID the way the mobile API parser does
+ */
+function withListingId(property: Property): Property {
+  return property.id.startsWith('is24-') ? property : { ...property, id: toListingId(property.id) };
+}
+
 export default IS24RestScraper;
@@ -0,0 +1,283 @@
+/**
+ * Schema-Drift Monitor
+ *
+ * The mobile API is undocumented and changes with app versions; when its
+ * response shape changes, parsing quietly yields empty or half-filled
+ * listings. Every search response from the mobile and REST APIs is checked
+ * for:
+ *
+ * - unknown top-level fields
+ * - unknown result item types (mobile ResultListItem.type) and real-estate
+ *   types
+ * - attribute labels the attribute interpreter does not recognize
+ * - listings missing required fields (ID, price, location, size)
+ *
+ * New unknowns are logged once as drift warnings and counted in the report,
+ * which the coordinator stores with the run (queue-stats shows it). A page
+ * counts as drifted when it reports hits but yields no listings, or when
+ * more than maxMissingRatio of its listings lack a required field. After
+ * maxDriftedPages drifted pages in a row, SchemaDriftError is thrown and the
+ * coordinator fails the run.
+ */
+
+import { Property } from './shared-types';
+import { MobileSearchResponse, ResultListItem } from './parser';
+import { ApiSearchResult } from './api-client';
+import { classifyAttribute } from './attribute-parser';
+import { REAL_ESTATE_TYPES, isKnownTypeName, isPropertyKind } from './real-estate-types';
+import { config } from './config';
+import { createLogger } from './logger';
+
+const logger = createLogger('SchemaMonitor');
+
+export type MonitoredApi = 'mobile' | 'rest';
+
+export type RequiredField = 'id' | 'price' | 'location' | 'size';
+
+const REQUIRED_FIELDS: RequiredField[] = ['id', 'price', 'location', 'size'];
+
+// Top-level fields the parsers know about
+const KNOWN_TOP_LEVEL_FIELDS: Record<MonitoredApi, Set<string>> = {
+  mobile: new Set([
+    'totalResults', 'pageSize', 'pageNumber', 'numberOfPages', 'numberOfListings',
+    'resultListItems', 'resultlist', 'searchResponseModel'
+  ]),
+  rest: new Set(['resultlist.resultlist'])
+};
+
+const KNOWN_ITEM_TYPES = new Set(['EXPOSE_RESULT']);
+
+export interface DriftThresholds {
+  maxMissingRatio: number;  // Share of a page's listings missing a required field
+  maxDriftedPages: number;  // Drifted pages in a row before the run fails
+  minPageItems: number;     // Smaller pages are not judged by missing fields
+  failOnDrift: boolean;
+}
+
+/**
+ * Drift counters for one API
+ */
+export interface DriftReport {
+  api: MonitoredApi;
+  responses: number;
+  items: number;            // Listing items in responses
+  listings: number;         // Listings parsed from them
+  driftedPages: number;
+  unknownFields: Record<string, number>;
+  unknownItemTypes: Record<string, number>;
+  unknownLabels: Record<string, number>;
+  missingFields: Record<RequiredField, number>;
+  lastDriftAt?: string;
+  lastDriftReason?: string;
+}
+
+/**
+ * Raised when schema drift crosses the configured threshold
+ */
+export class SchemaDriftError extends Error {
+  constructor(
+    public readonly api: MonitoredApi,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SchemaDriftError';
+  }
+}
+
+export class SchemaMonitor {
+  private reports: Record<MonitoredApi, DriftReport>;
+  private consecutiveDrifted: Record<MonitoredApi, number> = { mobile: 0, rest: 0 };
+
+  constructor(private thresholds: DriftThresholds) {
+    this.reports = { mobile: createReport('mobile'), rest: createReport('rest') };
+  }
+
+  /**
+   * Check a mobile API search response and the listings parsed from it
+   */
+  observeMobileSearch(response: MobileSearchResponse, properties: Property[]): void {
+    const report = this.reports.mobile;
+    this.checkTopLevelFields('mobile', response);
+
+    const items: ResultListItem[] = response.resultListItems || [];
+    let listingItems = 0;
+    for (const resultItem of items) {
+      const type = resultItem.type || '(none)';
+      if (!KNOWN_ITEM_TYPES.has(type)) {
+        this.recordUnknown('mobile', report.unknownItemTypes, type, 'result item type');
+        continue;
+      }
+      listingItems++;
+
+      const item = resultItem.item;
+      if (item?.realEstateType && !isKnownTypeName(item.realEstateType)) {
+        this.recordUnknown('mobile', report.unknownItemTypes, `realEstateType:${item.realEstateType}`, 'real-estate type');
+      }
+
+      for (const [index, attribute] of (item?.attributes || []).entries()) {
+        if (classifyAttribute(attribute, index).kind === 'unknown') {
+          this.recordUnknown('mobile', report.unknownLabels, describeLabel(attribute), 'attribute label');
+        }
+      }
+    }
+
+    const legacyEntries = (response.resultlist || response.searchResponseModel?.resultlist)?.resultlistEntries
+      ?.reduce((count, group) => count + (group.resultlistEntry?.length || 0), 0) || 0;
+    const hits = response.totalResults ?? response.numberOfListings ??
+      (response.resultlist || response.searchResponseModel?.resultlist)?.paging?.numberOfHits ?? 0;
+
+    this.checkPage('mobile', hits, listingItems + legacyEntries, properties);
+  }
+
+  /**
+   * Check a REST API search response and the listings parsed from it
+   */
+  observeRestSearch(response: ApiSearchResult, properties: Property[]): void {
+    const report = this.reports.rest;
+    this.checkTopLevelFields('rest', response);
+
+    const resultlist = response['resultlist.resultlist'];
+    let items = 0;
+    for (const group of resultlist?.resultlistEntries || []) {
+      for (const entry of group.resultlistEntry || []) {
+        items++;
+        const type = entry.realEstate?.['@xsi.type'];
+        if (type && !isKnownTypeName(type)) {
+          this.recordUnknown('rest', report.unknownItemTypes, `@xsi.type:${type}`, 'real-estate type');
+        }
+      }
+    }
+
+    this.checkPage('rest', resultlist?.paging?.numberOfHits ?? 0, items, properties);
+  }
+
+  /**
+   * Current drift counters per API
+   */
+  getReports(): DriftReport[] {
+    return [this.reports.mobile, this.reports.rest].filter(report => report.responses > 0);
+  }
+
+  /**
+   * Reset counters (e.g. between runs)
+   */
+  reset(): void {
+    this.reports = { mobile: createReport('mobile'), rest: createReport('rest') };
+    this.consecutiveDrifted = { mobile: 0, rest: 0 };
+  }
+
+  /**
+   * Record unknown top-level fields of a response
+   */
+  private checkTopLevelFields(api: MonitoredApi, response: object): void {
+    const report = this.reports[api];
+    report.responses++;
+
+    for (const field of Object.keys(response || {})) {
+      if (!KNOWN_TOP_LEVEL_FIELDS[api].has(field)) {
+        this.recordUnknown(api, report.unknownFields, field, 'top-level field');
+      }
+    }
+  }
+
+  /**
+   * Count an unknown value, warning the first time it is seen
+   */
+  private recordUnknown(api: MonitoredApi, counts: Record<string, number>, key: string, what: string): void {
+    if (!counts[key]) {
+      logger.warn(`Schema drift (${api} API): unknown ${what} "${key}"`);
+    }
+    counts[key] = (counts[key] || 0) + 1;
+  }
+
+  /**
+   * Judge one result page and fail once too many pages in a row drifted
+   */
+  private checkPage(api: MonitoredApi, hits: number, items: number, properties: Property[]): void {
+    const report = this.reports[api];
+    report.items += items;
+    report.listings += properties.length;
+
+    const missing = countMissingFields(properties);
+    missing.id += Math.max(0, items - properties.length);
+    for (const field of REQUIRED_FIELDS) {
+      report.missingFields[field] += missing[field];
+    }
+
+    let reason: string | undefined;
+    if (hits > 0 && properties.length === 0) {
+      reason = `${hits} hits but no listings parsed (${items} result items)`;
+    } else if (items >= this.thresholds.minPageItems) {
+      const field = REQUIRED_FIELDS.find(name => missing[name] / items > this.thresholds.maxMissingRatio);
+      if (field) {
+        reason = `${missing[field]} of ${items} listings missing ${field}`;
+      }
+    }
+
+    if (!reason) {
+      this.consecutiveDrifted[api] = 0;
+      return;
+    }
+
+    this.consecutiveDrifted[api]++;
+    report.driftedPages++;
+    report.lastDriftAt = new Date().toISOString();
+    report.lastDriftReason = reason;
+    logger.warn(`Schema drift (${api} API): ${reason}`);
+
+    if (this.thresholds.failOnDrift && this.consecutiveDrifted[api] >= this.thresholds.maxDriftedPages) {
+      throw new SchemaDriftError(
+        api,
+        `${api} API response shape changed: ${this.consecutiveDrifted[api]} drifted pages in a row, last: ${reason}`
+      );
+    }
+  }
+}
+
+/**
+ * Shared monitor for all clients in this process
+ */
+export const schemaMonitor = new SchemaMonitor(config.schemaDrift);
+
+function createReport(api: MonitoredApi): DriftReport {
+  return {
+    api,
+    responses: 0,
+    items: 0,
+    listings: 0,
+    driftedPages: 0,
+    unknownFields: {},
+    unknownItemTypes: {},
+    unknownLabels: {},
+    missingFields: { id: 0, price: 0, location: 0, size: 0 }
+  };
+}
+
+/**
+ * Count parsed listings missing each required field
+ */
+function countMissingFields(properties: Property[]): Record<RequiredField, number> {
+  const missing: Record<RequiredField, number> = { id: 0, price: 0, location: 0, size: 0 };
+
+  for (const property of properties) {
+    if (!property.id) missing.id++;
+    if (!(property.price > 0)) missing.price++;
+    if (!property.location?.city || property.location.city === 'Unknown') missing.location++;
+
+    // Garages and investments have no comparable size
+    const spec = isPropertyKind(property.propertyType) ? REAL_ESTATE_TYPES[property.propertyType] : undefined;
+    const size = property.details?.sqm || property.details?.plotArea || property.details?.floorSpace;
+    if ((!spec || spec.areaField) && !size) missing.size++;
+  }
+
+  return missing;
+}
+
+/**
+ * Label of an attribute for reporting; unlabelled values are reduced to
+ * their shape ("9.999 XYZ") so numbers do not make every value unique
+ */
+function describeLabel(attribute: { label?: string; value?: string }): string {
+  if (attribute.label) return attribute.label;
+  return `(no label) ${(attribute.value || '').replace(/\d/g, '9')}`;
+}
@@ -1,6 +1,26 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import { Property, ScraperConfig, ScraperResult } from './shared-types';
 import { createLogger } from './logger';
+import { ListingProcessingError, toSnippet } from './errors';
+import { RateLimiter } from './rate-limiter';
+import { ListingProvider, SearchFilters, SearchQuery } from './listing-provider';
+import { GeoArea, buildLocationParams, describeLocation } from './geo-search';
+import { KnownIdCheck, MOBILE_NEWEST_FIRST, MOBILE_SORT_CONFIRMED, applyIncrementalCutoff } from './incremental';
+import { schemaMonitor } from './schema-monitor';
+import {
+  ValidationMode,
+  enforceValidation,
+  validateMobileExposeResponse,
+  validateMobileSearchResponse
+} from './response-validator';
+import { config } from './config';
+import {
+  PropertyKind,
+  buildTypeFilters,
+  getMobileRealEstateType,
+  getTypeSearchParams,
+  supportsTransaction
+} from './real-estate-types';
 import {
   MobileSearchResponse,
   MobileExposeResponse,
@@ -13,13 +33,19 @@ import {
  */
 export interface IS24SearchParams {
   searchType?: 'region' | 'radius' | 'shape';
-  realestatetype?: string;  // apartmentrent, apartmentbuy, houserent, housebuy
+  realestatetype?: string;  // apartmentrent, housebuy, livingbuysite, office, ... (see real-estate-types.ts)
   geocodes?: string;        // Geocode ID for region
+  geocoordinates?: string;  // lat;lon;radius for radius search
+  shape?: string;           // Encoded polyline for shape search
   pagenumber?: number;
   pagesize?: number;
   price?: string;           // min-max (e.g., "100000-500000" or "-500000" or "100000-")
   livingspace?: string;     // min-max sqm
   numberofrooms?: string;   // min-max rooms
+  plotarea?: string;        // min-max sqm (land)
+  totalfloorspace?: string; // min-max sqm (commercial)
+  commercializationtype?: 'buy' | 'rent';  // Commercial types
+  newbuilding?: boolean;    // New-build projects only
   sorting?: string;         // price, datepublished, etc.
 }
 
@@ -28,21 +54,41 @@ export interface IS24SearchParams {
  */
 export interface IS24ScraperOptions {
   transactionTypes?: ('sale' | 'rent')[];
-  propertyTypes?: ('apartment' | 'house')[];
+  propertyTypes?: PropertyKind[];
   geocodes?: string[];      // Geocode IDs for regions
+  area?: GeoArea;           // Radius or polygon (instead of geocodes)
   priceMin?: number;
   priceMax?: number;
-  livingSpaceMin?: number;
+  livingSpaceMin?: number;  // Size filter of the type (living space, plot area or floor space)
   livingSpaceMax?: number;
   roomsMin?: number;
   roomsMax?: number;
   maxPages?: number;
   pageSize?: number;
   rateLimit?: number;       // ms between requests
+  rateLimiter?: RateLimiter; // Shared limiter acquired before every HTTP call
+  since?: Date;             // Incremental: only listings activated since (newest first)
+  hasKnownIds?: KnownIdCheck; // Incremental: stop paging after a page with a known ID
+  validation?: ValidationMode; // Response validation: strict throws, lenient logs
   verbose?: boolean;
 }
 
-const DEFAULT_OPTIONS: Required<IS24ScraperOptions> = {
+/**
+ * Options for a single scrapeSearch call
+ */
+export interface ScrapeSearchOptions {
+  startPage?: number;       // First page to fetch (resume after a checkpoint)
+  onPage?: (page: number, properties: Property[]) => Promise<void>;
+  throwOnError?: boolean;   // Rethrow page errors instead of returning partial results
+  since?: Date;             // Incremental: newest first, only listings activated since
+  hasKnownIds?: KnownIdCheck; // Incremental: stop paging after a page with a known ID
+  onTruncated?: () => Promise<void>; // Paging stopped at maxResults with pages left
+}
+
+type ResolvedScraperOptions = Required<Omit<IS24ScraperOptions, 'rateLimiter' | 'area' | 'since' | 'hasKnownIds'>> &
+  Pick<IS24ScraperOptions, 'area' | 'since' | 'hasKnownIds'>;
+
+const DEFAULT_OPTIONS: ResolvedScraperOptions = {
   transactionTypes: ['sale', 'rent'],
   propertyTypes: ['apartment', 'house'],
   geocodes: [],
@@ -55,6 +101,7 @@ const DEFAULT_OPTIONS: Required<IS24ScraperOptions> = {
   maxPages: 5,
   pageSize: 20,
   rateLimit: 1000,
+  validation: config.validation.mode,
   verbose: false
 };
 
@@ -68,6 +115,10 @@ const DEFAULT_OPTIONS: Required<IS24ScraperOptions> = {
  * 1. Visit immobilienscout24.de and search for a city
  * 2. Look at the URL for geocode patterns
  * 3. Test with the mobile API
+ *
+ * The registry keeps geocodes in both formats in data/geocodes.json, keyed
+ * by the AGS of the regions in data/regions.json; see geocode-registry.ts and
+ * `npm run verify-geocodes`.
  */
 export const GEOCODES: Record<string, string> = {
   // Verified working
@@ -81,10 +132,11 @@ export const GEOCODES: Record<string, string> = {
   // COLOGNE: '1276005315',     // Not verified
 };
 
-export class ImmobilienScout24Scraper {
+export class ImmobilienScout24Scraper implements ListingProvider {
+  readonly name = 'mobile' as const;
   private logger = createLogger(this.constructor.name);
   private client: AxiosInstance;
-  private options: Required<IS24ScraperOptions>;
+  private options: ResolvedScraperOptions;
 
   private readonly baseUrl = 'https://api.mobile.immobilienscout24.de';
   private readonly userAgent = 'ImmoScout_27.12_26.2_._';
@@ -103,6 +155,15 @@ export class ImmobilienScout24Scraper {
         'Content-Type': 'application/json'
       }
     });
+
+    // Take a token from the shared limiter before every request
+    const rateLimiter = options.rateLimiter;
+    if (rateLimiter) {
+      this.client.interceptors.request.use(async config => {
+        await rateLimiter.acquire();
+        return config;
+      });
+    }
   }
 
   private log(message: string): void {
@@ -121,18 +182,24 @@ export class ImmobilienScout24Scraper {
   /**
    * Build real estate type for API
    */
-  private buildRealEstateType(propertyType: 'apartment' | 'house', transactionType: 'sale' | 'rent'): string {
-    const propMap: Record<string, Record<string, string>> = {
-      apartment: { sale: 'apartmentbuy', rent: 'apartmentrent' },
-      house: { sale: 'housebuy', rent: 'houserent' }
+  buildRealEstateType(propertyType: PropertyKind, transactionType: 'sale' | 'rent'): string {
+    return getMobileRealEstateType(propertyType, transactionType);
+  }
+
+  /**
+   * Build type name and type-specific parameters for a search
+   */
+  private buildTypeParams(propertyType: PropertyKind, transactionType: 'sale' | 'rent'): IS24SearchParams {
+    return {
+      realestatetype: this.buildRealEstateType(propertyType, transactionType),
+      ...getTypeSearchParams(propertyType, transactionType)
     };
-    return propMap[propertyType]?.[transactionType] || 'apartmentbuy';
   }
 
   /**
    * Build price range string
    */
-  private buildRangeString(min?: number, max?: number): string | undefined {
+  buildRangeString(min?: number, max?: number): string | undefined {
     if (!min && !max) return undefined;
     if (min && max) return `${min}-${max}`;
     if (min) return `${min}-`;
@@ -142,6 +209,9 @@ export class ImmobilienScout24Scraper {
 
   /**
    * Get total count for a search
+   *
+   * Throws when the count cannot be fetched or read, so that a failed count
+   * is not mistaken for a search without hits.
    */
   async getTotalCount(params: IS24SearchParams): Promise<number> {
     try {
@@ -149,24 +219,38 @@ export class ImmobilienScout24Scraper {
       if (params.searchType) queryParams.append('searchType', params.searchType);
       if (params.realestatetype) queryParams.append('realestatetype', params.realestatetype);
       if (params.geocodes) queryParams.append('geocodes', params.geocodes);
+      if (params.geocoordinates) queryParams.append('geocoordinates', params.geocoordinates);
+      if (params.shape) queryParams.append('shape', params.shape);
       if (params.price) queryParams.append('price', params.price);
       if (params.livingspace) queryParams.append('livingspace', params.livingspace);
       if (params.numberofrooms) queryParams.append('numberofrooms', params.numberofrooms);
+      if (params.plotarea) queryParams.append('plotarea', params.plotarea);
+      if (params.totalfloorspace) queryParams.append('totalfloorspace', params.totalfloorspace);
+      if (params.commercializationtype) queryParams.append('commercializationtype', params.commercializationtype);
+      if (params.newbuilding) queryParams.append('newbuilding', 'true');
 
       const url = `/search/total?${queryParams.toString()}`;
       this.log(`Getting total count: ${url}`);
 
       const response = await this.client.get(url);
-      const total = response.data?.searchResponseModel?.resultlist?.paging?.numberOfHits ||
-                    response.data?.resultlist?.paging?.numberOfHits ||
-                    response.data?.numberOfHits ||
-                    0;
+      const total = response.data?.searchResponseModel?.resultlist?.paging?.numberOfHits ??
+                    response.data?.resultlist?.paging?.numberOfHits ??
+                    response.data?.numberOfHits;
+
+      if (typeof total !== 'number') {
+        throw new ListingProcessingError(
+          'parse_error',
+          'Total count response has no numberOfHits',
+          response.status,
+          toSnippet(response.data)
+        );
+      }
 
       this.log(`Total count: ${total}`);
       return total;
     } catch (error) {
       this.log(`Error getting total count: ${error}`);
-      return 0;
+      throw error;
     }
   }
 
@@ -184,11 +268,17 @@ export class ImmobilienScout24Scraper {
     if (params.searchType) queryParams.append('searchType', params.searchType);
     if (params.realestatetype) queryParams.append('realestatetype', params.realestatetype);
     if (params.geocodes) queryParams.append('geocodes', params.geocodes);
+    if (params.geocoordinates) queryParams.append('geocoordinates', params.geocoordinates);
+    if (params.shape) queryParams.append('shape', params.shape);
     if (params.pagenumber) queryParams.append('pagenumber', params.pagenumber.toString());
     if (params.pagesize) queryParams.append('pagesize', params.pagesize.toString());
     if (params.price) queryParams.append('price', params.price);
     if (params.livingspace) queryParams.append('livingspace', params.livingspace);
     if (params.numberofrooms) queryParams.append('numberofrooms', params.numberofrooms);
+    if (params.plotarea) queryParams.append('plotarea', params.plotarea);
+    if (params.totalfloorspace) queryParams.append('totalfloorspace', params.totalfloorspace);
+    if (params.commercializationtype) queryParams.append('commercializationtype', params.commercializationtype);
+    if (params.newbuilding) queryParams.append('newbuilding', 'true');
     if (params.sorting) queryParams.append('sorting', params.sorting);
 
     const url = `/search/list?${queryParams.toString()}`;
@@ -203,7 +293,11 @@ export class ImmobilienScout24Scraper {
         }
       );
 
-      return parseSearchResponse(response.data);
+      enforceValidation('mobile search', validateMobileSearchResponse(response.data), this.options.validation, response.data);
+      const transactionType = params.commercializationtype && (params.commercializationtype === 'rent' ? 'rent' : 'sale');
+      const result = parseSearchResponse(response.data, transactionType);
+      schemaMonitor.observeMobileSearch(response.data, result.properties);
+      return result;
     } catch (error) {
       const axiosError = error as AxiosError;
       this.log(`Search error: ${axiosError.message}`);
@@ -219,19 +313,38 @@ export class ImmobilienScout24Scraper {
 
   /**
    * Get expose (detail) for a specific listing
+   *
+   * Returns null when the expose no longer exists (HTTP 404). Other HTTP
+   * and network errors are rethrown so callers can classify them.
    */
   async getExpose(exposeId: string): Promise<Property | null> {
     const url = `/expose/${exposeId}`;
     this.log(`Getting expose: ${url}`);
 
+    let response;
     try {
-      const response = await this.client.get<MobileExposeResponse>(url);
-      return parseExposeResponse(response.data, exposeId);
+      response = await this.client.get<MobileExposeResponse>(url);
     } catch (error) {
       const axiosError = error as AxiosError;
       this.log(`Expose error: ${axiosError.message}`);
-      return null;
+
+      if (axiosError.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+
+    enforceValidation('mobile expose', validateMobileExposeResponse(response.data), this.options.validation, response.data);
+    const property = parseExposeResponse(response.data, exposeId);
+    if (!property) {
+      throw new ListingProcessingError(
+        'parse_error',
+        `Expose ${exposeId} response has no realEstate`,
+        response.status,
+        toSnippet(response.data)
+      );
     }
+    return property;
   }
 
   /**
@@ -249,21 +362,29 @@ export class ImmobilienScout24Scraper {
 
     for (const transactionType of this.options.transactionTypes) {
       for (const propertyType of this.options.propertyTypes) {
+        if (!supportsTransaction(propertyType, transactionType)) {
+          this.log(`Skipping ${propertyType} (${transactionType}): not offered on IS24`);
+          continue;
+        }
         const realEstateType = this.buildRealEstateType(propertyType, transactionType);
 
-        // If geocodes specified, search each; otherwise search without geocode
-        const geocodes = this.options.geocodes.length > 0 ? this.options.geocodes : [undefined];
+        // Search the area, or each geocode; otherwise search without location
+        const locations: (string | GeoArea | undefined)[] = this.options.area
+          ? [this.options.area]
+          : this.options.geocodes.length > 0 ? this.options.geocodes : [undefined];
 
-        for (const geocode of geocodes) {
+        for (const location of locations) {
           try {
             const baseParams: IS24SearchParams = {
-              searchType: geocode ? 'region' : undefined,
-              realestatetype: realEstateType,
-              geocodes: geocode,
+              ...buildLocationParams(location),
+              ...this.buildTypeParams(propertyType, transactionType),
               pagesize: this.options.pageSize,
-              price: this.buildRangeString(this.options.priceMin, this.options.priceMax),
-              livingspace: this.buildRangeString(this.options.livingSpaceMin, this.options.livingSpaceMax),
-              numberofrooms: this.buildRangeString(this.options.roomsMin, this.options.roomsMax)
+              ...(this.options.since && { sorting: MOBILE_NEWEST_FIRST }),
+              ...buildTypeFilters(propertyType, {
+                price: this.buildRangeString(this.options.priceMin, this.options.priceMax),
+                area: this.buildRangeString(this.options.livingSpaceMin, this.options.livingSpaceMax),
+                rooms: this.buildRangeString(this.options.roomsMin, this.options.roomsMax)
+              })
             };
 
             // Get first page
@@ -276,8 +397,14 @@ export class ImmobilienScout24Scraper {
                   ...baseParams,
                   pagenumber: page
                 });
-
-                for (const property of searchResult.properties) {
+                const { properties: pageProperties, reachedEnd } = await applyIncrementalCutoff(
+                  searchResult.properties,
+                  this.options.since,
+                  this.options.hasKnownIds,
+                  MOBILE_SORT_CONFIRMED
+                );
+
+                for (const property of pageProperties) {
                   if (!seenIds.has(property.id)) {
                     seenIds.add(property.id);
                     result.properties.push(property);
@@ -287,14 +414,14 @@ export class ImmobilienScout24Scraper {
                 result.totalFound = Math.max(result.totalFound, searchResult.totalHits);
                 result.pagesScraped++;
 
-                hasMore = page < searchResult.totalPages && searchResult.properties.length > 0;
+                hasMore = page < searchResult.totalPages && searchResult.properties.length > 0 && !reachedEnd;
                 page++;
 
                 if (hasMore) {
                   await this.sleep(this.options.rateLimit);
                 }
               } catch (error) {
-                const errorMsg = `Error on page ${page} for ${realEstateType}${geocode ? `/${geocode}` : ''}: ${error}`;
+                const errorMsg = `Error on page ${page} for ${realEstateType}${location ? `/${describeLocation(location)}` : ''}: ${error}`;
                 result.errors.push(errorMsg);
                 this.logger.error(errorMsg);
                 break;
@@ -314,53 +441,105 @@ export class ImmobilienScout24Scraper {
     return result;
   }
 
+  /**
+   * Get hit count for a search (ListingProvider)
+   */
+  async countListings(query: SearchQuery): Promise<number> {
+    return this.getTotalCount({
+      ...buildLocationParams(query.area || query.geocode),
+      ...this.buildTypeParams(query.propertyType, query.transactionType),
+      ...query.filters
+    });
+  }
+
+  /**
+   * Page through a search (ListingProvider)
+   */
+  async searchListings(
+    query: SearchQuery,
+    maxResults: number,
+    options: ScrapeSearchOptions = {}
+  ): Promise<Property[]> {
+    return this.scrapeSearch(
+      query.transactionType,
+      query.propertyType,
+      query.area || query.geocode,
+      maxResults,
+      query.filters,
+      options
+    );
+  }
+
   /**
    * Scrape with specific parameters (convenience method)
    */
   async scrapeSearch(
     transactionType: 'sale' | 'rent',
-    propertyType: 'apartment' | 'house',
-    geocode?: string,
-    maxResults: number = 100
+    propertyType: PropertyKind,
+    location?: string | GeoArea,
+    maxResults: number = 100,
+    filters: SearchFilters = {},
+    options: ScrapeSearchOptions = {}
   ): Promise<Property[]> {
     const properties: Property[] = [];
     const seenIds = new Set<string>();
 
-    const realEstateType = this.buildRealEstateType(propertyType, transactionType);
+    const typeParams = this.buildTypeParams(propertyType, transactionType);
     const maxPages = Math.ceil(maxResults / this.options.pageSize);
 
-    let page = 1;
+    let page = options.startPage || 1;
     let hasMore = true;
 
     while (hasMore && page <= maxPages && properties.length < maxResults) {
       try {
         const searchResult = await this.search({
-          searchType: geocode ? 'region' : undefined,
-          realestatetype: realEstateType,
-          geocodes: geocode,
+          ...buildLocationParams(location),
+          ...typeParams,
           pagenumber: page,
-          pagesize: this.options.pageSize
+          pagesize: this.options.pageSize,
+          ...(options.since && { sorting: MOBILE_NEWEST_FIRST }),
+          ...filters
         });
-
-        for (const property of searchResult.properties) {
+        const cutoff = await applyIncrementalCutoff(
+          searchResult.properties,
+          options.since,
+          options.hasKnownIds,
+          MOBILE_SORT_CONFIRMED
+        );
+
+        const pageProperties: Property[] = [];
+        for (const property of cutoff.properties) {
           if (!seenIds.has(property.id) && properties.length < maxResults) {
             seenIds.add(property.id);
             properties.push(property);
+            pageProperties.push(property);
           }
         }
 
-        hasMore = page < searchResult.totalPages && searchResult.properties.length > 0;
+        if (options.onPage) {
+          await options.onPage(page, pageProperties);
+        }
+
+        hasMore = page < searchResult.totalPages && searchResult.properties.length > 0 && !cutoff.reachedEnd;
         page++;
 
         if (hasMore) {
           await this.sleep(this.options.rateLimit);
         }
       } catch (error) {
+        if (options.throwOnError) {
+          throw error;
+        }
         this.log(`Error on page ${page}: ${error}`);
+        hasMore = false;
         break;
       }
     }
 
+    if (hasMore && options.onTruncated) {
+      await options.onTruncated();
+    }
+
     return properties;
   }
 }
@@ -0,0 +1,254 @@
+/**
+ * Adaptive Search Partitioner
+ *
+ * IS24 only pages through a limited number of results per search, so a search
+ * for e.g. all Berlin apartment rentals is silently truncated. The partitioner
+ * checks hit counts with /search/total and recursively bisects a search by
+ * price band, then size (living space, plot area or floor space, depending on
+ * the real-estate type), then rooms, until every leaf search fits under the
+ * page limit. Leaves are returned as discovery tasks.
+ *
+ * Bands are inclusive on both ends, so neighbouring leaves share their
+ * boundary value; the queue's ID deduplication absorbs the overlap.
+ */
+
+import { IS24SearchParams } from './scraper';
+import { ListingProvider } from './listing-provider';
+import { GeoArea, describeArea } from './geo-search';
+import { AreaFilterParam, PropertyKind, REAL_ESTATE_TYPES } from './real-estate-types';
+import { createLogger } from './logger';
+
+const logger = createLogger('SearchPartitioner');
+
+export type SplitParam = 'price' | AreaFilterParam | 'numberofrooms';
+
+/**
+ * A leaf search to be scraped by the coordinator
+ */
+export interface DiscoveryTask {
+  city: string;
+  geocode?: string;
+  area?: GeoArea;           // Radius or polygon search instead of a geocode
+  transactionType: 'sale' | 'rent';
+  propertyType: PropertyKind;
+  filters: Pick<IS24SearchParams, SplitParam>;
+  hits: number;
+  truncated?: boolean;      // Could not be split below the page limit
+  since?: string;           // Incremental: only listings activated since (ISO)
+}
+
+interface Band {
+  min: number;
+  max?: number;             // undefined = open-ended
+}
+
+interface SplitDimension {
+  param: SplitParam;
+  initialMax: number;       // Upper bound of the first closed band
+  minWidth: number;         // Bands narrower than this are not split further
+}
+
+const PRICE_DIMENSIONS: Record<'sale' | 'rent', SplitDimension> = {
+  sale: { param: 'price', initialMax: 2000000, minWidth: 1000 },
+  rent: { param: 'price', initialMax: 5000, minWidth: 10 }
+};
+
+const AREA_DIMENSIONS: Record<AreaFilterParam, SplitDimension> = {
+  livingspace: { param: 'livingspace', initialMax: 300, minWidth: 1 },
+  plotarea: { param: 'plotarea', initialMax: 5000, minWidth: 10 },
+  totalfloorspace: { param: 'totalfloorspace', initialMax: 2000, minWidth: 5 }
+};
+
+const ROOMS_DIMENSION: SplitDimension = { param: 'numberofrooms', initialMax: 8, minWidth: 0.5 };
+
+/**
+ * Dimensions a search can be split along, in order
+ */
+function getSplitDimensions(transactionType: 'sale' | 'rent', propertyType: PropertyKind): SplitDimension[] {
+  const spec = REAL_ESTATE_TYPES[propertyType];
+  return [
+    PRICE_DIMENSIONS[transactionType],
+    ...(spec.areaFilter ? [AREA_DIMENSIONS[spec.areaFilter]] : []),
+    ...(spec.hasRooms ? [ROOMS_DIMENSION] : [])
+  ];
+}
+
+export class SearchPartitioner {
+  private countRequests = 0;
+
+  /**
+   * @param maxResults Largest hit count a single search can page through
+   */
+  constructor(
+    private provider: ListingProvider,
+    private maxResults: number
+  ) {}
+
+  /**
+   * Split a city or area search into leaf discovery tasks
+   *
+   * @param location Geocode or area (radius / polygon)
+   * @param filters Base filters; a range given here bounds the bands split
+   *   along that dimension
+   */
+  async partition(
+    city: string,
+    location: string | GeoArea,
+    transactionType: 'sale' | 'rent',
+    propertyType: PropertyKind,
+    filters: Pick<IS24SearchParams, SplitParam> = {}
+  ): Promise<DiscoveryTask[]> {
+    this.countRequests = 0;
+
+    const root: DiscoveryTask = {
+      city,
+      ...(typeof location === 'string' ? { geocode: location } : { area: location }),
+      transactionType,
+      propertyType,
+      filters: { ...filters },
+      hits: 0
+    };
+
+    const leaves = await this.split(root, 0);
+    const totalHits = leaves.reduce((sum, leaf) => sum + leaf.hits, 0);
+
+    logger.info(
+      `${describeTask(root)}: ${leaves.length} leaf searches, ~${totalHits} hits ` +
+      `(${this.countRequests} count requests)`
+    );
+
+    return leaves;
+  }
+
+  /**
+   * Recursively split a task along the dimension at dimIndex
+   */
+  private async split(
+    task: DiscoveryTask,
+    dimIndex: number,
+    band?: Band,
+    knownHits?: number
+  ): Promise<DiscoveryTask[]> {
+    const hits = knownHits ?? await this.count(task);
+
+    if (hits === 0) {
+      return [];
+    }
+
+    if (hits <= this.maxResults) {
+      return [{ ...task, hits }];
+    }
+
+    const dimensions = getSplitDimensions(task.transactionType, task.propertyType);
+    if (dimIndex >= dimensions.length) {
+      logger.warn(`${describeTask(task)}: ${hits} hits cannot be split further, results will be truncated`);
+      return [{ ...task, hits, truncated: true }];
+    }
+
+    const dimension = dimensions[dimIndex];
+    const current = band || parseBand(task.filters[dimension.param]);
+
+    // Band too narrow to divide on this dimension: split along the next one
+    const subBands = bisect(current, dimension);
+    if (
+      (current.max !== undefined && current.max - current.min <= dimension.minWidth) ||
+      subBands[0].max === current.max ||
+      subBands[1].min === current.min
+    ) {
+      return this.split(task, dimIndex + 1, undefined, hits);
+    }
+
+    const leaves: DiscoveryTask[] = [];
+    for (const subBand of subBands) {
+      const subTask: DiscoveryTask = {
+        ...task,
+        filters: {
+          ...task.filters,
+          [dimension.param]: formatBand(subBand)
+        }
+      };
+      leaves.push(...await this.split(subTask, dimIndex, subBand));
+    }
+
+    return leaves;
+  }
+
+  /**
+   * Get hit count for a task
+   */
+  private async count(task: DiscoveryTask): Promise<number> {
+    this.countRequests++;
+    return this.provider.countListings({
+      transactionType: task.transactionType,
+      propertyType: task.propertyType,
+      geocode: task.geocode,
+      area: task.area,
+      filters: task.filters
+    });
+  }
+}
+
+/**
+ * Split a band in two. Open-ended bands are first closed at the dimension's
+ * initial maximum, then extended by doubling.
+ */
+function bisect(band: Band, dimension: SplitDimension): [Band, Band] {
+  if (band.max === undefined) {
+    const boundary = band.min < dimension.initialMax ? dimension.initialMax : band.min * 2;
+    return [{ min: band.min, max: boundary }, { min: boundary }];
+  }
+
+  const step = dimension.minWidth;
+  const mid = Math.round((band.min + (band.max - band.min) / 2) / step) * step;
+  return [{ min: band.min, max: mid }, { min: mid, max: band.max }];
+}
+
+/**
+ * Parse a "min-max" range filter into a band (either end may be empty)
+ */
+function parseBand(range?: string): Band {
+  if (!range) {
+    return { min: 0 };
+  }
+
+  const [min, max] = range.split('-');
+  return {
+    min: min ? parseFloat(min) : 0,
+    max: max ? parseFloat(max) : undefined
+  };
+}
+
+/**
+ * Format a band as a "min-max" range filter
+ */
+function formatBand(band: Band): string | undefined {
+  if (!band.min && !band.max) return undefined;
+  if (band.max === undefined) return `${band.min}-`;
+  return band.min ? `${band.min}-${band.max}` : `-${band.max}`;
+}
+
+/**
+ * Human-readable description of a task
+ */
+export function describeTask(task: DiscoveryTask): string {
+  const filters = Object.entries(task.filters)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(' ');
+  const since = task.since ? ` since ${task.since}` : '';
+  return `${task.city} - ${task.propertyType} (${task.transactionType})${filters ? ` [${filters}]` : ''}${since}`;
+}
+
+/**
+ * Stable key identifying a task's search (plan search, region, type and filter bands)
+ */
+export function getTaskKey(task: DiscoveryTask): string {
+  const filters = [
+    ...(['price', 'livingspace', 'numberofrooms'] as SplitParam[]).map(param => task.filters[param] || ''),
+    // Only present for land and commercial types, keeping older keys stable
+    ...(['plotarea', 'totalfloorspace'] as SplitParam[]).filter(param => task.filters[param]).map(param => `${param}=${task.filters[param]}`)
+  ].join('|');
+  const location = task.geocode || (task.area ? describeArea(task.area) : '');
+  const since = task.since ? `|since=${task.since}` : '';
+  return `${task.city}|${location}|${task.transactionType}|${task.propertyType}|${filters}${since}`;
+}
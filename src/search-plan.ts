@@ -0,0 +1,284 @@
+/**
+ * Search Plan
+ *
+ * Describes what the coordinator crawls: regions (by geocode, city name,
+ * radius or GeoJSON polygon), real-estate types, filters, per-search priority and crawl
+ * frequency. Property types are the kinds in real-estate-types.ts (apartment,
+ * house, land, garage, office, retail, ...); combinations IS24 does not offer
+ * (e.g. investment for rent) are skipped. Loaded from a JSON file so ops can add regions without a code
+ * change; validated at startup.
+ *
+ * Example (search-plan.json):
+ *   {
+ *     "defaults": { "transactionTypes": ["sale", "rent"], "frequency": "daily" },
+ *     "searches": [
+ *       { "name": "Berlin", "region": { "city": "Berlin" }, "priority": 10 },
+ *       { "name": "Munich", "region": { "geocode": "1276009162" },
+ *         "propertyTypes": ["apartment"], "filters": { "price": "-1500000" } },
+ *       { "name": "Potsdam", "region": { "lat": 52.39, "lon": 13.06, "radiusKm": 8 } },
+ *       { "name": "Berlin land", "region": { "city": "Berlin" },
+ *         "propertyTypes": ["land"], "transactionTypes": ["sale"], "filters": { "plotarea": "300-" } },
+ *       { "name": "Catchment A", "region": { "shape": "areas/catchment-a.geojson" } }
+ *     ]
+ *   }
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SearchFilters } from './listing-provider';
+import { PropertyKind, isConfirmedKind, isPropertyKind, supportsTransaction } from './real-estate-types';
+import { describeGeocodeEntry, getGeocodeRegistry, hasGeocode, isGeocode, toMobileGeocode } from './geocode-registry';
+import { GeoArea, createRadiusArea, loadGeoJsonShape } from './geo-search';
+import { ValidationResult } from './api-types';
+import { createLogger } from './logger';
+import { config } from './config';
+
+const logger = createLogger('SearchPlan');
+
+export type CrawlFrequency = 'hourly' | 'daily' | 'weekly';
+
+export type RegionSpec =
+  | { geocode: string }
+  | { city: string }
+  | { lat: number; lon: number; radiusKm: number }
+  | { shape: string };        // Path to a GeoJSON polygon
+
+export interface SearchPlanEntry {
+  name: string;
+  region: RegionSpec;
+  transactionTypes?: ('sale' | 'rent')[];
+  propertyTypes?: PropertyKind[];
+  filters?: SearchFilters;
+  priority?: number;          // Higher runs first (default: 0)
+  frequency?: CrawlFrequency; // Minimum time between crawls (default: daily)
+  enabled?: boolean;
+}
+
+export interface SearchPlan {
+  defaults?: Omit<SearchPlanEntry, 'name' | 'region'>;
+  searches: SearchPlanEntry[];
+}
+
+/**
+ * A plan entry with defaults applied and its region resolved to a geocode
+ * or an area
+ */
+export interface ResolvedSearch {
+  name: string;
+  geocode?: string;
+  area?: GeoArea;
+  transactionTypes: ('sale' | 'rent')[];
+  propertyTypes: PropertyKind[];
+  filters: SearchFilters;
+  priority: number;
+  frequency: CrawlFrequency;
+}
+
+export const FREQUENCY_MS: Record<CrawlFrequency, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Built-in plan used when no plan file exists (matches the historical matrix)
+ */
+export const DEFAULT_SEARCH_PLAN: SearchPlan = {
+  defaults: {
+    transactionTypes: ['sale', 'rent'],
+    propertyTypes: ['apartment', 'house'],
+    frequency: 'daily'
+  },
+  searches: [
+    { name: 'Berlin', region: { city: 'Berlin' } }
+  ]
+};
+
+const TRANSACTION_TYPES = ['sale', 'rent'];
+const FILTER_PARAMS = ['price', 'livingspace', 'numberofrooms', 'plotarea', 'totalfloorspace'];
+const RANGE_PATTERN = /^(\d+(\.\d+)?)?-(\d+(\.\d+)?)?$/;
+
+/**
+ * Look up a municipality's mobile geocode by name or PLZ (via the registry)
+ */
+export function findCityGeocode(city: string): string | undefined {
+  return getGeocodeRegistry().resolveOne(city)?.geocode;
+}
+
+/**
+ * Load a search plan from a JSON file, falling back to the built-in plan
+ */
+export function loadSearchPlan(planPath?: string): SearchPlan {
+  const resolvedPath = path.resolve(planPath || process.env.SEARCH_PLAN || 'search-plan.json');
+
+  if (!fs.existsSync(resolvedPath)) {
+    if (planPath || process.env.SEARCH_PLAN) {
+      throw new Error(`Search plan not found: ${resolvedPath}`);
+    }
+    logger.info('No search plan file found, using built-in plan');
+    return DEFAULT_SEARCH_PLAN;
+  }
+
+  logger.info(`Loading search plan from ${resolvedPath}`);
+  return JSON.parse(fs.readFileSync(resolvedPath, 'utf-8')) as SearchPlan;
+}
+
+/**
+ * Validate a search plan
+ *
+ * Structural problems and unresolvable regions are errors. Geocodes that are
+ * well-formed but missing from the registry or not verified are warnings.
+ */
+export function validateSearchPlan(plan: SearchPlan): ValidationResult {
+  const result: ValidationResult = { valid: true, errors: [], warnings: [] };
+  const registry = getGeocodeRegistry();
+  const names = new Set<string>();
+
+  if (!plan || !Array.isArray(plan.searches)) {
+    result.errors.push({ field: 'searches', error: 'must be an array', value: plan?.searches });
+    result.valid = false;
+    return result;
+  }
+
+  plan.searches.forEach((entry, idx) => {
+    const field = `searches[${idx}]`;
+    const merged = { ...plan.defaults, ...entry };
+
+    if (!entry.name) {
+      result.errors.push({ field: `${field}.name`, error: 'is required', value: entry.name });
+    } else if (names.has(entry.name)) {
+      result.errors.push({ field: `${field}.name`, error: 'must be unique', value: entry.name });
+    } else {
+      names.add(entry.name);
+    }
+
+    const region = entry.region as Record<string, unknown> | undefined;
+    if (!region) {
+      result.errors.push({ field: `${field}.region`, error: 'is required', value: region });
+    } else if ('geocode' in region) {
+      if (!isGeocode(String(region.geocode))) {
+        result.errors.push({ field: `${field}.region.geocode`, error: 'is not a valid IS24 geocode', value: region.geocode });
+      } else {
+        const entry = registry.findByGeocode(String(region.geocode));
+        if (!entry) {
+          result.warnings.push({ field: `${field}.region.geocode`, warning: `unknown geocode ${region.geocode} (not in registry)` });
+        } else if (!entry.verified) {
+          result.warnings.push({ field: `${field}.region.geocode`, warning: `geocode ${region.geocode} (${entry.name}) is not verified` });
+        }
+      }
+    } else if ('city' in region) {
+      const entries = registry.resolve(String(region.city));
+      if (entries.length === 0) {
+        result.errors.push({ field: `${field}.region.city`, error: 'unknown city (not in geocode registry)', value: region.city });
+      } else if (entries.length > 1) {
+        result.errors.push({ field: `${field}.region.city`, error: `ambiguous, matches ${entries.map(e => `${e.ags} ${describeGeocodeEntry(e)}`).join(', ')}`, value: region.city });
+      } else if (!hasGeocode(entries[0])) {
+        result.errors.push({ field: `${field}.region.city`, error: `no geocode for ${describeGeocodeEntry(entries[0])} in data/geocodes.json`, value: region.city });
+      } else if (!entries[0].verified) {
+        result.warnings.push({ field: `${field}.region.city`, warning: `geocode ${entries[0].geocode} (${entries[0].name}) is not verified` });
+      }
+    } else if ('lat' in region || 'lon' in region || 'radiusKm' in region) {
+      try {
+        createRadiusArea(Number(region.lat), Number(region.lon), Number(region.radiusKm));
+      } catch (error) {
+        result.errors.push({ field: `${field}.region`, error: (error as Error).message, value: region });
+      }
+    } else if ('shape' in region) {
+      try {
+        loadGeoJsonShape(String(region.shape));
+      } catch (error) {
+        result.errors.push({ field: `${field}.region.shape`, error: (error as Error).message, value: region.shape });
+      }
+    } else {
+      result.errors.push({ field: `${field}.region`, error: 'must have geocode, city, lat/lon/radiusKm or shape', value: region });
+    }
+
+    for (const type of merged.transactionTypes || []) {
+      if (!TRANSACTION_TYPES.includes(type)) {
+        result.errors.push({ field: `${field}.transactionTypes`, error: 'unknown transaction type', value: type });
+      }
+    }
+
+    for (const type of merged.propertyTypes || []) {
+      if (!isPropertyKind(type)) {
+        result.errors.push({ field: `${field}.propertyTypes`, error: 'unknown property type', value: type });
+        continue;
+      }
+      if (!isConfirmedKind(type) && entry.enabled !== false) {
+        if (config.realEstateTypes.allowUnconfirmed) {
+          result.warnings.push({ field: `${field}.propertyTypes`, warning: `${type} type names are not confirmed against live responses` });
+        } else {
+          result.errors.push({
+            field: `${field}.propertyTypes`,
+            error: 'type names not confirmed against live responses (set ALLOW_UNCONFIRMED_TYPES=true to crawl anyway)',
+            value: type
+          });
+        }
+      }
+      const unsupported = (merged.transactionTypes || TRANSACTION_TYPES)
+        .filter(tx => TRANSACTION_TYPES.includes(tx) && !supportsTransaction(type, tx as 'sale' | 'rent'));
+      if (unsupported.length > 0) {
+        result.warnings.push({ field: `${field}.propertyTypes`, warning: `${type} is not offered for ${unsupported.join(', ')}, skipped` });
+      }
+    }
+
+    for (const [key, value] of Object.entries(merged.filters || {})) {
+      if (!FILTER_PARAMS.includes(key)) {
+        result.errors.push({ field: `${field}.filters.${key}`, error: `unknown filter (${FILTER_PARAMS.join(', ')})`, value });
+      } else if (value && !RANGE_PATTERN.test(value)) {
+        result.errors.push({ field: `${field}.filters.${key}`, error: 'must be a "min-max" range', value });
+      }
+    }
+
+    if (merged.frequency && !(merged.frequency in FREQUENCY_MS)) {
+      result.errors.push({ field: `${field}.frequency`, error: 'must be hourly, daily or weekly', value: merged.frequency });
+    }
+
+    if (merged.priority !== undefined && typeof merged.priority !== 'number') {
+      result.errors.push({ field: `${field}.priority`, error: 'must be a number', value: merged.priority });
+    }
+  });
+
+  result.valid = result.errors.length === 0;
+  return result;
+}
+
+/**
+ * Apply defaults, resolve regions and order searches by priority
+ *
+ * Assumes the plan has passed validateSearchPlan.
+ */
+export function resolveSearchPlan(plan: SearchPlan): ResolvedSearch[] {
+  return plan.searches
+    .filter(entry => entry.enabled !== false)
+    .map(entry => {
+      const merged = { ...plan.defaults, ...entry };
+
+      return {
+        name: entry.name,
+        ...resolveRegion(entry.region),
+        transactionTypes: merged.transactionTypes || ['sale', 'rent'],
+        propertyTypes: merged.propertyTypes || ['apartment', 'house'],
+        filters: merged.filters || {},
+        priority: merged.priority ?? 0,
+        frequency: merged.frequency || 'daily'
+      };
+    })
+    .sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * Resolve a region to a mobile geocode or an area
+ */
+function resolveRegion(region: RegionSpec): Pick<ResolvedSearch, 'geocode' | 'area'> {
+  if ('geocode' in region) {
+    return { geocode: toMobileGeocode(region.geocode) };
+  }
+  if ('city' in region) {
+    return { geocode: findCityGeocode(region.city) };
+  }
+  if ('shape' in region) {
+    return { area: loadGeoJsonShape(region.shape) };
+  }
+  return { area: createRadiusArea(region.lat, region.lon, region.radiusKm) };
+}
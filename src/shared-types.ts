@@ -11,7 +11,7 @@ export interface Property {
   source: string;
   url: string;
   title: string;
-  price: number;
+  price: number;            // Rent: base rent (Kaltmiete), else total rent
   currency: string;
   propertyType: string;
   transactionType: 'sale' | 'rent';
@@ -28,6 +28,8 @@ export interface Property {
   };
   details?: {
     sqm?: number;
+    plotArea?: number;    // Grundstücksfläche (land, houses)
+    floorSpace?: number;  // Total floor space (commercial)
     rooms?: number;
     bedrooms?: number;
     bathrooms?: number;
@@ -37,6 +39,9 @@ export interface Property {
     availableFrom?: string;
     description?: string; // Additional description field
   };
+  rentCosts?: RentCosts;    // Rental listings
+  purchaseCosts?: PurchaseCosts; // Sale listings
+  energyCertificate?: EnergyCertificate;
   features: string[];
   images: string[];
   description?: string;
@@ -51,6 +56,53 @@ export interface Property {
   scrapedAt: string;
 }
 
+/**
+ * Energy certificate (Energieausweis) of a listing (see energy-certificate.ts)
+ */
+export interface EnergyCertificate {
+  type?: 'consumption' | 'demand'; // Verbrauchsausweis, Bedarfsausweis
+  energyValue?: number;     // Final energy consumption or demand in kWh/(m²·a)
+  energyCarrier?: string;   // Primary energy carrier, e.g. "gas", "district-heating"
+  issueYear?: number;
+  hotWaterIncluded?: boolean; // Consumption value includes hot water
+  energyClass?: string;     // A+ to H
+  energyClassDerived?: boolean; // Class computed from energyValue
+}
+
+/**
+ * Rent cost breakdown of a rental listing (see rent-costs.ts)
+ */
+export interface RentCosts {
+  baseRent?: number;          // Kaltmiete
+  serviceCharge?: number;     // Nebenkosten
+  heatingCosts?: number;      // Heizkosten
+  heatingIncluded?: boolean;  // Heating costs included in the service charge
+  totalRent?: number;         // Warmmiete
+  totalRentDerived?: boolean; // Total rent computed from the parts
+  deposit?: number;           // Kaution
+  depositMonths?: number;     // Deposit given as months of base rent
+  depositText?: string;       // Deposit as listed ("3 Kaltmieten")
+}
+
+/**
+ * Purchase costs of a sale listing (see purchase-costs.ts)
+ */
+export interface PurchaseCosts {
+  commissionFree?: boolean;   // provisionsfrei
+  commissionRate?: number;    // Buyer commission in % of the price, incl. VAT
+  commissionAmount?: number;  // Buyer commission as a fixed amount, incl. VAT
+  commissionText?: string;    // Commission as listed ("3,57 % inkl. MwSt.")
+  hausgeld?: number;          // Monthly owners' association fee (condominiums)
+  rented?: boolean;           // vermietet
+  rentalIncome?: number;      // Current monthly rental income
+  state?: string;             // Bundesland of the address
+  transferTaxRate?: number;   // Grunderwerbsteuer in %
+  transferTax?: number;
+  notaryFees?: number;        // Notary and land registry
+  commission?: number;        // Buyer commission amount
+  totalCost?: number;         // Price plus all of the above
+}
+
 /**
  * Scraper configuration
  */
@@ -3,6 +3,10 @@
  */
 
 import { Property } from './shared-types';
+import { REAL_ESTATE_TYPES, isPropertyKind } from './real-estate-types';
+import { buildRentFields } from './rent-costs';
+import { buildPurchaseFields } from './purchase-costs';
+import { buildEnergyFields } from './energy-certificate';
 
 /**
  * StandardProperty interface (from @landomo/core)
@@ -141,7 +145,14 @@ function normalizePropertyType(type: string): string {
     'commercial': 'commercial',
     'gewerbe': 'commercial',
     'restaurant': 'restaurant',
-    'gastro': 'restaurant'
+    'gastro': 'restaurant',
+    'gastronomy': 'restaurant',
+    'industrial': 'industrial',
+    'garage': 'parking',
+    'investment': 'investment',
+    'short_term': 'apartment',
+    'flat_share': 'room',
+    'new_build': 'apartment'
   };
 
   return typeMap[normalized] || 'property';
@@ -264,13 +275,9 @@ function extractAmenities(features: string[]): {
 function buildCountrySpecific(raw: Property): Record<string, any> {
   const specific: Record<string, any> = {};
 
-  // Extract energy efficiency class
-  const energyFeature = raw.features.find((f: string) => f.toLowerCase().includes('energy-class'));
-  if (energyFeature) {
-    const match = energyFeature.match(/energy-class-([a-h]\+?)/i);
-    if (match) {
-      specific.energieausweis = match[1].toUpperCase();
-    }
+  // Energy certificate (Energieausweis)
+  if (raw.energyCertificate) {
+    Object.assign(specific, buildEnergyFields(raw.energyCertificate));
   }
 
   // Extract heating type
@@ -287,6 +294,31 @@ function buildCountrySpecific(raw: Property): Record<string, any> {
     specific.zustand = condition;
   }
 
+  // IS24 category (Objektart), e.g. "Wohnen auf Zeit" for short_term listings
+  if (isPropertyKind(raw.propertyType)) {
+    specific.objektart = REAL_ESTATE_TYPES[raw.propertyType].label;
+  }
+
+  // Plot area (Grundstücksfläche)
+  if (raw.details?.plotArea) {
+    specific.grundstuecksflaeche = raw.details.plotArea;
+  }
+
+  // Commercial floor space (Gesamtfläche)
+  if (raw.details?.floorSpace) {
+    specific.gesamtflaeche = raw.details.floorSpace;
+  }
+
+  // Rent cost breakdown (Kaltmiete, Nebenkosten, Warmmiete, Kaution)
+  if (raw.rentCosts) {
+    Object.assign(specific, buildRentFields(raw.rentCosts));
+  }
+
+  // Purchase costs (Provision, Hausgeld, Grunderwerbsteuer, Gesamtkosten)
+  if (raw.purchaseCosts) {
+    Object.assign(specific, buildPurchaseFields(raw.purchaseCosts));
+  }
+
   // Construction year (Baujahr)
   if (raw.details?.constructionYear) {
     specific.baujahr = raw.details.constructionYear;
@@ -0,0 +1,197 @@
+/**
+ * Geocode Verification CLI
+ *
+ * Checks every geocode in the registry (data/geocodes.json) against the IS24
+ * APIs: a geocode passes when an apartment rental search for it returns hits.
+ * The mobile format is always checked, the REST format only with --rest
+ * (needs OAuth credentials). --record saves the hit counts as a fixture and
+ * --fixtures replays one without API calls; a geocode missing from the
+ * replayed fixture is an error, so re-record after adding geocodes. The
+ * test fixture (test/fixtures/geocode-hits.json) holds the verified ones.
+ *
+ * Usage:
+ *   npm run verify-geocodes                          # Check mobile geocodes
+ *   npm run verify-geocodes -- --rest                # Also check REST geocodes
+ *   npm run verify-geocodes -- --record counts.json  # Save hit counts as a fixture
+ *   npm run verify-geocodes -- --fixtures counts.json  # Replay a fixture (no API calls)
+ *   npm run verify-geocodes -- --write               # Store results in data/geocodes.json
+ */
+
+import * as fs from 'fs';
+import { ImmobilienScout24Scraper } from './scraper';
+import { IS24RestScraper } from './rest-scraper';
+import { GeocodedEntry, GeocodeRegistry, DEFAULT_GEOCODE_FILE } from './geocode-registry';
+import { createLogger } from './logger';
+import { config } from './config';
+
+const logger = createLogger('VerifyGeocodes');
+
+export type GeocodeFormat = 'mobile' | 'rest';
+
+/**
+ * Returns the hit count of a geocode in one format
+ */
+export type GeocodeCounter = (format: GeocodeFormat, geocode: string) => Promise<number>;
+
+/**
+ * Recorded hit counts, keyed by format and geocode
+ */
+export type GeocodeFixture = Record<GeocodeFormat, Record<string, number>>;
+
+export interface GeocodeCheck {
+  entry: GeocodedEntry;
+  mobileHits: number;
+  restHits?: number;
+  ok: boolean;
+}
+
+/**
+ * Check registry entries with a counter
+ */
+export async function verifyGeocodes(
+  entries: GeocodedEntry[],
+  counter: GeocodeCounter,
+  checkRest: boolean = false
+): Promise<GeocodeCheck[]> {
+  const checks: GeocodeCheck[] = [];
+
+  for (const entry of entries) {
+    const mobileHits = await counter('mobile', entry.geocode);
+    const restHits = checkRest ? await counter('rest', entry.restGeocode) : undefined;
+
+    checks.push({
+      entry,
+      mobileHits,
+      restHits,
+      ok: mobileHits > 0 && (restHits === undefined || restHits > 0)
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Counter that queries the live APIs
+ */
+function createApiCounter(): GeocodeCounter {
+  const mobile = new ImmobilienScout24Scraper({ verbose: false });
+  let rest: IS24RestScraper | undefined;
+
+  return async (format, geocode) => {
+    await new Promise(resolve => setTimeout(resolve, config.requestDelay));
+
+    const query = {
+      transactionType: 'rent' as const,
+      propertyType: 'apartment' as const,
+      geocode
+    };
+
+    try {
+      if (format === 'mobile') {
+        return await mobile.countListings(query);
+      }
+
+      rest = rest || new IS24RestScraper({ verbose: false });
+      return await rest.countListings(query);
+    } catch (error) {
+      logger.warn(`${format === 'mobile' ? 'Mobile' : 'REST'} count failed for ${geocode}: ${error}`);
+      return 0;
+    }
+  };
+}
+
+/**
+ * Counter that replays a recorded fixture, failing on geocodes it lacks
+ */
+export function createFixtureCounter(fixture: GeocodeFixture): GeocodeCounter {
+  return async (format, geocode) => {
+    const hits = fixture[format]?.[geocode];
+    if (hits === undefined) {
+      throw new Error(`No ${format} hit count recorded for geocode ${geocode}`);
+    }
+    return hits;
+  };
+}
+
+/**
+ * Read a fixture written by --record
+ */
+export function loadFixture(filePath: string): GeocodeFixture {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as GeocodeFixture;
+}
+
+/**
+ * Wrap a counter so that every result is recorded into a fixture
+ */
+function recordingCounter(counter: GeocodeCounter, fixture: GeocodeFixture): GeocodeCounter {
+  return async (format, geocode) => {
+    const hits = await counter(format, geocode);
+    fixture[format][geocode] = hits;
+    return hits;
+  };
+}
+
+function getArg(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const checkRest = args.includes('--rest');
+  const fixturePath = getArg(args, '--fixtures');
+  const recordPath = getArg(args, '--record');
+
+  const registry = GeocodeRegistry.load();
+  const recorded: GeocodeFixture = { mobile: {}, rest: {} };
+
+  let counter = fixturePath
+    ? createFixtureCounter(loadFixture(fixturePath))
+    : createApiCounter();
+  if (recordPath) {
+    counter = recordingCounter(counter, recorded);
+  }
+
+  const entries = registry.getGeocodedEntries();
+  logger.info(`Verifying ${entries.length} geocodes${fixturePath ? ` against ${fixturePath}` : ''}`);
+  const checks = await verifyGeocodes(entries, counter, checkRest);
+
+  console.log('\n=== GEOCODE VERIFICATION ===\n');
+  console.log(`${'Name'.padEnd(24)} ${'Mobile'.padEnd(12)} ${'Hits'.padStart(8)}${checkRest ? `  ${'REST'.padEnd(15)} ${'Hits'.padStart(8)}` : ''}  Result`);
+
+  for (const check of checks) {
+    const { entry } = check;
+    const rest = checkRest
+      ? `  ${entry.restGeocode.padEnd(15)} ${String(check.restHits).padStart(8)}`
+      : '';
+    console.log(
+      `${entry.name.padEnd(24)} ${entry.geocode.padEnd(12)} ${String(check.mobileHits).padStart(8)}${rest}  ${check.ok ? 'OK' : 'FAILED'}`
+    );
+  }
+
+  const failed = checks.filter(check => !check.ok);
+  console.log(`\n${checks.length - failed.length}/${checks.length} geocodes verified\n`);
+
+  if (recordPath) {
+    fs.writeFileSync(recordPath, JSON.stringify(recorded, null, 2) + '\n');
+    logger.info(`Recorded hit counts to ${recordPath}`);
+  }
+
+  if (args.includes('--write')) {
+    for (const check of checks) {
+      check.entry.verified = check.ok;
+      check.entry.listingCount = check.mobileHits;
+    }
+    registry.save();
+    logger.info(`Updated ${DEFAULT_GEOCODE_FILE}`);
+  }
+
+  process.exit(failed.length > 0 ? 1 : 0);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    logger.error('Geocode verification failed:', error);
+    process.exit(1);
+  });
+}
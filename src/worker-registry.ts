@@ -0,0 +1,136 @@
+/**
+ * Worker Registry
+ *
+ * Workers register themselves in Redis and refresh a heartbeat key that
+ * expires on its own (after three missed intervals). The registry set keeps
+ * the IDs of every worker seen, so a worker whose heartbeat expired (crash,
+ * OOM kill) shows up as dead rather than silently disappearing. A worker that
+ * missed two intervals but has not expired yet is flagged as stale.
+ */
+
+import Redis from 'ioredis';
+import * as os from 'os';
+import { createLogger } from './logger';
+
+const logger = createLogger('WorkerRegistry');
+
+export interface WorkerState {
+  workerId: string;
+  hostname: string;
+  pid: number;
+  runId?: string;
+  status: 'idle' | 'processing' | 'stopping';
+  currentId?: string;
+  processedCount: number;
+  failedCount: number;
+  startedAt: string;
+  lastHeartbeat: string;
+}
+
+export type WorkerHealth = 'alive' | 'stale' | 'dead';
+
+export interface WorkerEntry {
+  workerId: string;
+  state: WorkerState | null;   // null when the heartbeat has expired
+  health: WorkerHealth;
+}
+
+export class WorkerRegistry {
+  private redis: Redis;
+  private workersKey: string;
+  private workerPrefix: string;
+
+  constructor(
+    portal: string,
+    private heartbeatIntervalMs: number,
+    redisUrl?: string
+  ) {
+    this.redis = new Redis(redisUrl || process.env.REDIS_URL || 'redis://localhost:6379', {
+      maxRetriesPerRequest: 3
+    });
+    this.workersKey = `landomo:${portal}:workers`;
+    this.workerPrefix = `landomo:${portal}:worker`;
+
+    this.redis.on('error', (err) => {
+      logger.error('Redis error:', err);
+    });
+  }
+
+  /**
+   * Write a heartbeat for a worker (registers it on first call)
+   */
+  async heartbeat(state: Omit<WorkerState, 'hostname' | 'pid' | 'lastHeartbeat'>): Promise<void> {
+    const fullState: WorkerState = {
+      ...state,
+      hostname: os.hostname(),
+      pid: process.pid,
+      lastHeartbeat: new Date().toISOString()
+    };
+
+    const key = this.getWorkerKey(state.workerId);
+    const pipeline = this.redis.pipeline();
+    pipeline.sadd(this.workersKey, state.workerId);
+    pipeline.set(key, JSON.stringify(fullState), 'PX', this.heartbeatIntervalMs * 3);
+    await pipeline.exec();
+  }
+
+  /**
+   * Remove a worker from the registry (graceful shutdown)
+   */
+  async unregister(workerId: string): Promise<void> {
+    const pipeline = this.redis.pipeline();
+    pipeline.srem(this.workersKey, workerId);
+    pipeline.del(this.getWorkerKey(workerId));
+    await pipeline.exec();
+  }
+
+  /**
+   * List all registered workers, flagging those whose heartbeat is overdue
+   */
+  async listWorkers(): Promise<WorkerEntry[]> {
+    const workerIds = (await this.redis.smembers(this.workersKey)).sort();
+    if (workerIds.length === 0) {
+      return [];
+    }
+
+    const values = await this.redis.mget(...workerIds.map(id => this.getWorkerKey(id)));
+    const now = Date.now();
+
+    return workerIds.map((workerId, idx) => {
+      const value = values[idx];
+      if (!value) {
+        return { workerId, state: null, health: 'dead' as WorkerHealth };
+      }
+
+      const state = JSON.parse(value) as WorkerState;
+      const age = now - new Date(state.lastHeartbeat).getTime();
+      const health: WorkerHealth = age > this.heartbeatIntervalMs * 2 ? 'stale' : 'alive';
+      return { workerId, state, health };
+    });
+  }
+
+  /**
+   * Drop workers whose heartbeat has expired from the registry set
+   */
+  async pruneDead(): Promise<string[]> {
+    const entries = await this.listWorkers();
+    const expired = entries.filter(entry => entry.state === null).map(entry => entry.workerId);
+
+    if (expired.length > 0) {
+      await this.redis.srem(this.workersKey, ...expired);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Close Redis connection
+   */
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  private getWorkerKey(workerId: string): string {
+    return `${this.workerPrefix}:${workerId}`;
+  }
+}
@@ -1,23 +1,42 @@
 /**
  * ImmobilienScout24 Worker - Phase 2: Property Detail Fetching
  *
- * Consumes property IDs from Redis queue and processes them.
+ * Consumes property IDs from Redis queue, resolves each one to a full listing
+ * (stored search-result payload, or an expose fetch when fields are missing),
+ * normalizes and transforms it, and sends it to the Core Service. Details
+ * only exposes carry (Kaution, heating costs, commission, energy certificate)
+ * are fetched only for listings that are new or changed.
  *
  * Features:
  * - Distributed processing (run multiple workers)
+ * - Reliable delivery (claimed IDs survive crashes and restarts)
  * - Automatic retry with exponential backoff
- * - Rate limiting per worker
+ * - Mobile or REST API expose fetches (IS24_PROVIDER)
+ * - Cluster-wide rate limiting (shared Redis token bucket)
  * - Progress tracking
+ * - Heartbeat registration (visible via queue-stats workers)
+ * - Change detection (unchanged listings are not re-ingested, price history)
+ * - Plausibility rules (implausible listings are quarantined, not ingested)
  * - Core Service integration
  *
  * Usage:
  *   npm run worker              # Start single worker
  */
 
-import { ImmobilienScout24Scraper } from './scraper';
+import * as os from 'os';
 import { RedisQueue } from './redis-queue';
+import { RedisRateLimiter } from './rate-limiter';
+import { ListingProvider, createListingProvider } from './listing-provider';
+import { WorkerRegistry } from './worker-registry';
+import { Property } from './shared-types';
+import { ListingProcessingError, classifyError, isRetryable } from './errors';
 import { transformToStandard } from './transformer';
-import { sendToCoreService } from './core-service-client';
+import { normalizeGermanProperty } from './german-normalizer';
+import { sendToCoreService, coreServiceClient } from './core-service-client';
+import { ListingHistoryStore, buildHistoryFields } from './listing-history';
+import { PlausibilityChecker, describeViolations } from './plausibility-rules';
+import { QuarantineStore } from './quarantine-store';
+import { isPropertyKind, isResidentialKind } from './real-estate-types';
 import { createLogger } from './logger';
 import { config } from './config';
 
@@ -25,24 +44,45 @@ const logger = createLogger('Worker');
 
 export class ImmobilienScout24Worker {
   private queue: RedisQueue;
-  private scraper: ImmobilienScout24Scraper;
+  private provider: ListingProvider;
+  private rateLimiters: { mobile: RedisRateLimiter; rest: RedisRateLimiter };
   private workerId: string;
   private isRunning: boolean = false;
   private processedCount: number = 0;
   private failedCount: number = 0;
+  private exposeFetchCount: number = 0;
+  private unchangedCount: number = 0;
+  private quarantinedCount: number = 0;
+  private history?: ListingHistoryStore;
+  private plausibility?: PlausibilityChecker;
+  private quarantine?: QuarantineStore;
+  private registry: WorkerRegistry;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+  private currentId?: string;
+  private startedAt: string = new Date().toISOString();
 
   constructor(workerId?: string) {
-    this.workerId = workerId || `worker-${process.pid}`;
+    this.workerId = workerId || defaultWorkerId();
     this.queue = new RedisQueue('immobilienscout24');
-    this.scraper = new ImmobilienScout24Scraper({
-      verbose: false,
-      rateLimit: 2000
-    });
+    this.rateLimiters = {
+      mobile: new RedisRateLimiter('immobilienscout24', 'mobile', config.rateLimit.mobile),
+      rest: new RedisRateLimiter('immobilienscout24', 'rest', config.rateLimit.rest)
+    };
+    this.registry = new WorkerRegistry('immobilienscout24', config.workers.heartbeatInterval);
+    this.provider = createListingProvider(this.rateLimiters);
+    if (config.history.enabled) {
+      this.history = new ListingHistoryStore('immobilienscout24', config.history.maxEntries);
+    }
+    if (config.plausibility.enabled) {
+      this.plausibility = new PlausibilityChecker(config.plausibility);
+      this.quarantine = new QuarantineStore('immobilienscout24');
+    }
   }
 
   async initialize() {
     await this.queue.initialize();
-    logger.info(`Worker ${this.workerId} initialized`);
+    logger.info(`Worker ${this.workerId} initialized (run ${this.queue.getRunId() || 'legacy'})`);
   }
 
   /**
@@ -54,51 +94,120 @@ export class ImmobilienScout24Worker {
       const isProcessed = await this.queue.isProcessed(id);
       if (isProcessed) {
         logger.debug(`[${this.workerId}] Skipping ${id} - already processed`);
+        await this.queue.ackListingId(this.workerId, id);
+        return true;
+      }
+
+      // Use the search-result payload stored by the coordinator, and only
+      // fetch the expose when it is missing or incomplete
+      const exposeId = id.replace('is24-', '');
+      let property = await this.queue.getListingPayload(id);
+      if (property && this.hasRequiredFields(property)) {
+        // Expose-only details are needed only when the listing is ingested
+        const missing = this.missingExposeDetails(property);
+        if (missing.length > 0) {
+          if (await this.isUnchangedPayload(id, property)) {
+            logger.debug(`[${this.workerId}] ${id} unchanged, skipping ingestion`);
+            this.unchangedCount++;
+            this.processedCount++;
+            await this.queue.markProcessed(id);
+            await this.queue.deleteListingPayload(id);
+            await this.queue.ackListingId(this.workerId, id);
+            return true;
+          }
+          logger.debug(`[${this.workerId}] ${id} payload lacks ${missing.join(', ')}, fetching expose`);
+          property = null;
+        }
+      }
+      if (!property || !this.hasRequiredFields(property)) {
+        property = await this.provider.getExpose(exposeId);
+        this.exposeFetchCount++;
+      }
+      if (!property) {
+        throw new ListingProcessingError('gone', `Expose ${exposeId} no longer exists`, 404);
+      }
+
+      // Normalization converts prices to USD in place; the rules judge the
+      // listing as parsed, in euros
+      const parsed = structuredClone(property);
+
+      // Normalize and transform to StandardProperty format
+      const normalized = normalizeGermanProperty(property);
+      const standardized = transformToStandard(normalized);
+
+      // Implausible listings are quarantined instead of ingested; they are
+      // checked again (and released once fixed) on the next crawl
+      const violations = this.plausibility?.checkListing(parsed, standardized) || [];
+      if (violations.length > 0) {
+        logger.warn(`[${this.workerId}] Quarantined ${id}: ${describeViolations(violations)}`);
+        await this.quarantine!.add(id, violations, standardized, this.queue.getRunId() || undefined);
+        this.quarantinedCount++;
+        await this.queue.markProcessed(id);
+        await this.queue.deleteListingPayload(id);
+        await this.queue.ackListingId(this.workerId, id);
         return true;
       }
+      await this.quarantine?.release(id);
+
+      // Compare with the last ingested version; the history is attached
+      // after fingerprinting so it does not count as a change itself
+      const change = this.history ? await this.history.compare(id, standardized) : null;
+      if (change && !change.changed) {
+        logger.debug(`[${this.workerId}] ${id} unchanged, skipping ingestion`);
+        this.unchangedCount++;
+      } else {
+        if (change) {
+          standardized.country_specific = {
+            ...standardized.country_specific,
+            ...buildHistoryFields(change.state)
+          };
+        }
+
+        // Send to Core Service (skipped when integration is disabled)
+        if (coreServiceClient.isEnabled()) {
+          const sent = await sendToCoreService(exposeId, standardized, normalized);
+          if (!sent) {
+            throw new ListingProcessingError('core_rejected', `Core Service rejected ${exposeId}`);
+          }
+        }
+
+        // Saved only once ingested, so a rejected listing is retried as a change
+        if (change) {
+          await this.history!.save(id, change.state);
+        }
+      }
 
-      // Note: The ImmobilienScout24 mobile API returns full property data in search results
-      // So we don't need a separate detail fetch endpoint
-      // The property data was already fetched during coordinator phase
-      // Workers could re-fetch if needed, or we could store full data in Redis
-
-      // For now, we'll fetch the property again to ensure we have latest data
-      const properties = await this.scraper.search({
-        realestatetype: 'apartmentbuy', // We don't know the type, so search all
-        pagenumber: 1,
-        pagesize: 1
-        // Note: Without a direct ID lookup endpoint, this is inefficient
-        // TODO: Consider storing full property data in Redis during coordinator phase
-      });
-
-      // Since we can't directly fetch by ID with mobile API,
-      // we'll mark as processed for now
-      // In production, you'd either:
-      // 1. Store full property data in Redis during coordinator
-      // 2. Use a different API endpoint that supports ID lookup
-      // 3. Re-implement with property data stored in queue
-
-      // Mark as processed (placeholder implementation)
+      // Mark as processed
       await this.queue.markProcessed(id);
+      await this.queue.deleteListingPayload(id);
+      await this.queue.ackListingId(this.workerId, id);
       this.processedCount++;
 
       if (this.processedCount % 10 === 0) {
         logger.info(
-          `[${this.workerId}] Processed: ${this.processedCount}, Failed: ${this.failedCount}`
+          `[${this.workerId}] Processed: ${this.processedCount}, Failed: ${this.failedCount}, ` +
+          `Unchanged: ${this.unchangedCount}, Quarantined: ${this.quarantinedCount}`
         );
       }
 
       return true;
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      logger.error(`[${this.workerId}] Failed to process ${id}:`, errorMsg);
+      const failure = classifyError(error);
+      logger.error(`[${this.workerId}] Failed to process ${id} (${failure.category}):`, failure.message);
 
-      // Re-queue with retry limit
-      const requeued = await this.queue.requeueWithRetry(id, 3);
-      if (!requeued) {
+      if (!isRetryable(failure.category)) {
+        // Permanent failure (e.g. delisted expose) - dead-letter immediately
+        await this.queue.markFailed(id, failure);
         this.failedCount++;
-        logger.error(`[${this.workerId}] Permanently failed ${id} after max retries`);
+      } else {
+        // Re-queue with retry limit
+        const requeued = await this.queue.requeueWithRetry(id, 3, failure);
+        if (!requeued) {
+          this.failedCount++;
+          logger.error(`[${this.workerId}] Permanently failed ${id} after max retries`);
+        }
       }
+      await this.queue.ackListingId(this.workerId, id);
 
       return false;
     }
@@ -108,19 +217,62 @@ export class ImmobilienScout24Worker {
    * Start worker (blocking loop)
    */
   async start(): Promise<void> {
+    this.running = this.run();
+    return this.running;
+  }
+
+  /**
+   * Claim and process listings until the queue stays empty or the worker
+   * is stopped
+   */
+  private async run(): Promise<void> {
     this.isRunning = true;
     logger.info(`[${this.workerId}] Starting worker...`);
 
+    // Heartbeat runs on a timer so long expose fetches do not look like a
+    // crash; it also keeps the claim of the listing in progress from being
+    // reaped after the visibility timeout
+    await this.sendHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      this.sendHeartbeat().catch(error => logger.warn(`[${this.workerId}] Heartbeat failed: ${error}`));
+      this.extendCurrentClaim().catch(error => logger.warn(`[${this.workerId}] Claim extension failed: ${error}`));
+    }, config.workers.heartbeatInterval);
+    this.heartbeatTimer.unref();
+
     let emptyQueueCount = 0;
     const maxEmptyChecks = 10; // Exit after 10 consecutive empty checks
+    let lastReapAt = 0;
 
     while (this.isRunning) {
       try {
-        // Pop next ID from queue (blocking for 5 seconds)
-        const id = await this.queue.popListingId(5);
+        // Return listings held by crashed workers to the queue
+        if (Date.now() - lastReapAt >= config.queue.reaperInterval) {
+          await this.queue.reapStaleClaims(config.queue.visibilityTimeout);
+          lastReapAt = Date.now();
+        }
+
+        // Move retries whose backoff has elapsed back into the queue
+        await this.queue.promoteDueRetries();
+
+        // Claim next ID from queue (blocking for 5 seconds)
+        const id = await this.queue.claimListingId(this.workerId, 5);
 
         if (!id) {
-          emptyQueueCount++;
+          const stats = await this.queue.getStats();
+
+          // Close out a drained run and move on to a newer one if it exists
+          if (stats.remaining === 0) {
+            await this.finishRunIfDrained();
+            if (await this.queue.switchToCurrentRun()) {
+              emptyQueueCount = 0;
+              continue;
+            }
+          }
+
+          // Pending delayed retries keep the worker alive
+          if (stats.delayedCount === 0) {
+            emptyQueueCount++;
+          }
 
           if (emptyQueueCount >= maxEmptyChecks) {
             logger.info(`[${this.workerId}] Queue empty after ${maxEmptyChecks} checks. Stopping.`);
@@ -128,7 +280,6 @@ export class ImmobilienScout24Worker {
           }
 
           // Show stats while waiting
-          const stats = await this.queue.getStats();
           logger.info(`[${this.workerId}] Queue empty (${emptyQueueCount}/${maxEmptyChecks}). Stats:`, stats);
           continue;
         }
@@ -136,17 +287,25 @@ export class ImmobilienScout24Worker {
         // Reset empty count when we get an ID
         emptyQueueCount = 0;
 
-        // Process the property
-        await this.processProperty(id);
-
-        // Rate limiting per worker
-        await this.randomDelay(1000, 3000);
+        // Process the property (HTTP calls are paced by the shared rate limiter)
+        this.currentId = id;
+        try {
+          await this.processProperty(id);
+        } finally {
+          this.currentId = undefined;
+        }
       } catch (error) {
         logger.error(`[${this.workerId}] Worker error:`, error);
         await this.randomDelay(5000, 10000); // Back off on errors
       }
     }
 
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+    await this.registry.unregister(this.workerId);
+
     logger.info(
       `[${this.workerId}] Worker stopped. Processed: ${this.processedCount}, Failed: ${this.failedCount}`
     );
@@ -154,11 +313,25 @@ export class ImmobilienScout24Worker {
 
   /**
    * Stop worker gracefully
+   *
+   * The listing in progress is finished first, so released claims are
+   * never processed twice.
    */
   async stop(): Promise<void> {
     logger.info(`[${this.workerId}] Stopping worker...`);
     this.isRunning = false;
+    await this.running?.catch(() => undefined);
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+    }
+    await this.queue.releaseClaims(this.workerId);
+    await this.registry.unregister(this.workerId);
     await this.queue.close();
+    await this.rateLimiters.mobile.close();
+    await this.rateLimiters.rest.close();
+    await this.registry.close();
+    await this.history?.close();
+    await this.quarantine?.close();
   }
 
   /**
@@ -167,12 +340,98 @@ export class ImmobilienScout24Worker {
   getStats() {
     return {
       workerId: this.workerId,
+      currentId: this.currentId,
+      startedAt: this.startedAt,
       processedCount: this.processedCount,
       failedCount: this.failedCount,
+      exposeFetchCount: this.exposeFetchCount,
+      unchangedCount: this.unchangedCount,
+      quarantinedCount: this.quarantinedCount,
       isRunning: this.isRunning
     };
   }
 
+  /**
+   * Publish current state to the worker registry
+   */
+  private async sendHeartbeat(): Promise<void> {
+    await this.registry.heartbeat({
+      workerId: this.workerId,
+      runId: this.queue.getRunId() || undefined,
+      status: !this.isRunning ? 'stopping' : this.currentId ? 'processing' : 'idle',
+      currentId: this.currentId,
+      processedCount: this.processedCount,
+      failedCount: this.failedCount,
+      startedAt: this.startedAt
+    });
+  }
+
+  /**
+   * Restart the visibility timeout of the listing in progress
+   */
+  private async extendCurrentClaim(): Promise<void> {
+    const id = this.currentId;
+    if (id && !await this.queue.extendClaim(this.workerId, id)) {
+      logger.warn(`[${this.workerId}] Claim on ${id} was reaped while processing`);
+    }
+  }
+
+  /**
+   * Finish the current run once discovery is done and nothing is left
+   */
+  private async finishRunIfDrained(): Promise<void> {
+    const runId = this.queue.getRunId();
+    if (!runId) return;
+
+    const run = await this.queue.getRun(runId);
+    if (run?.discoveryFinishedAt && !run.finishedAt) {
+      await this.queue.finishRun('completed');
+    }
+  }
+
+  /**
+   * Check whether a stored payload has the fields search results carry
+   */
+  private hasRequiredFields(property: Property): boolean {
+    return property.price > 0 &&
+      !!property.details?.sqm &&
+      !!property.location?.city &&
+      property.location.city !== 'Unknown';
+  }
+
+  /**
+   * Details only exposes carry that a payload lacks: Kaution and heating
+   * costs for rentals, the commission for sales and the energy certificate
+   * type for residential listings
+   */
+  private missingExposeDetails(property: Property): string[] {
+    const missing: string[] = [];
+
+    if (property.transactionType === 'rent') {
+      const rent = property.rentCosts;
+      if (rent?.deposit === undefined && rent?.depositText === undefined) missing.push('deposit');
+      if (rent?.heatingCosts === undefined && rent?.heatingIncluded === undefined) missing.push('heating costs');
+    } else {
+      const purchase = property.purchaseCosts;
+      if (!purchase?.commissionFree && purchase?.commissionText === undefined) missing.push('commission');
+    }
+
+    const residential = !isPropertyKind(property.propertyType) || isResidentialKind(property.propertyType);
+    if (residential && property.energyCertificate?.type === undefined) missing.push('energy certificate');
+
+    return missing;
+  }
+
+  /**
+   * Check whether a payload matches the last ingested version of its
+   * listing, so the expose does not need to be fetched
+   */
+  private async isUnchangedPayload(id: string, property: Property): Promise<boolean> {
+    if (!this.history) return false;
+
+    return this.history.isUnchanged(id, transformToStandard(normalizeGermanProperty(property)));
+  }
+
   /**
    * Random delay for rate limiting
    */
@@ -182,9 +441,16 @@ export class ImmobilienScout24Worker {
   }
 }
 
+/**
+ * Worker ID unique across containers (PIDs repeat between replicas)
+ */
+function defaultWorkerId(): string {
+  return `${os.hostname()}-${process.pid}`;
+}
+
 // Main execution
 async function main() {
-  const workerId = process.env.WORKER_ID || `worker-${process.pid}`;
+  const workerId = process.env.WORKER_ID || defaultWorkerId();
 
   logger.info('Starting ImmobilienScout24 Worker');
   logger.info(`Worker ID: ${workerId}`);
@@ -0,0 +1,76 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GeocodeRegistry, RegionData, getGeocodeRegistry } from '../src/geocode-registry';
+
+describe('GeocodeRegistry', () => {
+  const registry = getGeocodeRegistry();
+  const resolveAgs = (query: string) => registry.resolve(query).map(entry => entry.ags);
+
+  test('covers every Bundesland, Landkreis and municipality', () => {
+    const count = (type: string) => registry.getEntries().filter(entry => entry.type === type).length;
+
+    assert.equal(count('state'), 16);
+    assert.equal(count('district'), 294);   // 401 Kreise less 107 kreisfreie Städte
+    assert.ok(count('city') > 10_000);
+  });
+
+  test('resolves states, districts and municipalities without geocodes', () => {
+    assert.deepEqual(resolveAgs('Nordrhein-Westfalen'), ['05']);
+    assert.deepEqual(resolveAgs('Rhein-Sieg-Kreis'), ['05382']);
+    assert.deepEqual(resolveAgs('Unterhaching'), ['09184148']);
+    assert.equal(registry.resolveOne('Unterhaching')?.district, 'München');
+    assert.equal(registry.resolveOne('Unterhaching')?.geocode, undefined);
+  });
+
+  test('prefers municipalities over districts and states of the same name', () => {
+    assert.deepEqual(resolveAgs('München'), ['09162000']);
+    assert.deepEqual(resolveAgs('Landkreis München'), ['09184']);
+    assert.deepEqual(resolveAgs('Rostock'), ['13003000']);
+    assert.deepEqual(resolveAgs('Landkreis Rostock'), ['13072']);
+    assert.deepEqual(resolveAgs('Bremen'), ['04011000']);
+  });
+
+  test('matches names case-, umlaut- and qualifier-insensitively', () => {
+    assert.deepEqual(resolveAgs('muenchen'), ['09162000']);
+    assert.deepEqual(resolveAgs('Bad Homburg'), ['06434001']);
+    assert.deepEqual(resolveAgs('Ascheberg').sort(), ['01057001', '05558004']);
+    assert.deepEqual(resolveAgs('Ascheberg (Holstein)'), ['01057001']);
+  });
+
+  test('resolves ambiguous names to every match and AGS to one', () => {
+    assert.ok(registry.resolve('Neuenkirchen').length > 1);
+    assert.equal(registry.resolveOne('Neuenkirchen'), undefined);
+    assert.equal(registry.resolveOne('03352038')?.name, 'Neuenkirchen');
+  });
+
+  test('resolves a PLZ to the municipalities it covers', () => {
+    assert.deepEqual(resolveAgs('80331'), ['09162000']);
+    assert.ok(resolveAgs('24326').includes('01057001'));
+    assert.ok(!resolveAgs('24326').includes('05558004'));
+    assert.ok(resolveAgs('25836').includes('01054036'));
+    assert.deepEqual(resolveAgs('00000'), []);
+  });
+
+  test('picks a region outright by geocode alias', () => {
+    assert.deepEqual(resolveAgs('Frankfurt'), ['06412000']);
+    assert.deepEqual(resolveAgs('Munich'), ['09162000']);
+  });
+
+  test('resolves geocodes in both formats', () => {
+    const berlin = registry.resolveOne('Berlin');
+
+    assert.equal(berlin?.geocode, '1276003001');
+    assert.equal(berlin?.restGeocode, '1276003001046');
+    assert.equal(registry.resolveOne('1276003001046'), berlin);
+    assert.equal(registry.resolveOne('1276003001'), berlin);
+  });
+
+  test('rejects geocodes for unknown AGS', () => {
+    const regions: RegionData = { version: 1, states: [{ ags: '11', name: 'Berlin' }], districts: [], municipalities: [] };
+
+    assert.throws(
+      () => new GeocodeRegistry(regions, [{ ags: '11000000', geocode: '1276003001', restGeocode: '1276003001046' }]),
+      /unknown AGS 11000000/
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isInGermany } from '../src/plausibility-rules';
+
+// [name, lat, lon]
+const BORDER_TOWNS: Array<[string, number, number]> = [
+  ['Kehl', 48.57, 7.81],
+  ['Rheinau', 48.67, 7.93],
+  ['Iffezheim', 48.82, 8.14],
+  ['Selb', 50.17, 12.13],
+  ['Bad Brambach', 50.22, 12.31],
+  ['Bad Elster', 50.28, 12.23],
+  ['Breisach', 48.03, 7.58],
+  ['Weil am Rhein', 47.59, 7.62],
+  ['Jestetten', 47.65, 8.57],
+  ['Büsingen am Hochrhein', 47.70, 8.69],
+  ['Konstanz', 47.66, 9.17],
+  ['Lindau', 47.55, 9.68],
+  ['Oberstdorf', 47.41, 10.28],
+  ['Mittenwald', 47.44, 11.26],
+  ['Berchtesgaden', 47.63, 13.00],
+  ['Passau', 48.57, 13.46],
+  ['Haidmühle', 48.82, 13.78],
+  ['Furth im Wald', 49.31, 12.84],
+  ['Oberwiesenthal', 50.42, 12.97],
+  ['Sebnitz', 50.97, 14.27],
+  ['Zittau', 50.90, 14.81],
+  ['Görlitz', 51.15, 14.99],
+  ['Frankfurt (Oder)', 52.34, 14.55],
+  ['Ahlbeck', 53.94, 14.19],
+  ['Flensburg', 54.79, 9.43],
+  ['Perl', 49.47, 6.38],
+  ['Echternacherbrück', 49.81, 6.43],
+  ['Monschau', 50.55, 6.24],
+  ['Aachen', 50.78, 6.08],
+  ['Selfkant', 51.05, 5.88],
+  ['Emmerich', 51.83, 6.25],
+  ['Gronau', 52.21, 7.02],
+  ['Emden', 53.37, 7.21]
+];
+
+const ISLANDS: Array<[string, number, number]> = [
+  ['Borkum', 53.59, 6.67],
+  ['Helgoland', 54.18, 7.89],
+  ['Sylt (List)', 55.02, 8.43],
+  ['Fehmarn', 54.45, 11.15],
+  ['Rügen (Kap Arkona)', 54.68, 13.43]
+];
+
+const ABROAD: Array<[string, number, number]> = [
+  ['Null Island', 0, 0],
+  ['Paris', 48.86, 2.35],
+  ['Metz', 49.12, 6.18],
+  ['Luxembourg', 49.61, 6.13],
+  ['Brussels', 50.85, 4.35],
+  ['Amsterdam', 52.37, 4.90],
+  ['Groningen', 53.22, 6.57],
+  ['Odense', 55.40, 10.39],
+  ['Copenhagen', 55.68, 12.57],
+  ['Poznań', 52.41, 16.93],
+  ['Liberec', 50.77, 15.06],
+  ['Prague', 50.08, 14.43],
+  ['Vienna', 48.21, 16.37],
+  ['Innsbruck', 47.27, 11.39],
+  ['Zurich', 47.37, 8.54]
+];
+
+describe('isInGermany', () => {
+  for (const [name, lat, lon] of BORDER_TOWNS) {
+    test(`accepts border town ${name}`, () => {
+      assert.equal(isInGermany(lat, lon), true);
+    });
+  }
+
+  for (const [name, lat, lon] of ISLANDS) {
+    test(`accepts island ${name}`, () => {
+      assert.equal(isInGermany(lat, lon), true);
+    });
+  }
+
+  for (const [name, lat, lon] of ABROAD) {
+    test(`rejects ${name}`, () => {
+      assert.equal(isInGermany(lat, lon), false);
+    });
+  }
+
+  test('rejects non-finite coordinates', () => {
+    assert.equal(isInGermany(NaN, 10), false);
+    assert.equal(isInGermany(52.5, Infinity), false);
+  });
+});
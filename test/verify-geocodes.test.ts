@@ -0,0 +1,54 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { getGeocodeRegistry } from '../src/geocode-registry';
+import { createFixtureCounter, loadFixture, verifyGeocodes } from '../src/verify-geocodes';
+
+const FIXTURE = path.resolve('test/fixtures/geocode-hits.json');
+
+describe('verifyGeocodes', () => {
+  const registry = getGeocodeRegistry();
+  const fixture = loadFixture(FIXTURE);
+
+  test('replays the recorded fixture for the verified geocodes', async () => {
+    const entries = registry.getGeocodedEntries().filter(entry => entry.verified);
+    const checks = await verifyGeocodes(entries, createFixtureCounter(fixture), true);
+
+    assert.deepEqual(checks.map(check => check.entry.name), ['Berlin']);
+    assert.equal(checks[0].ok, true);
+    assert.equal(checks[0].mobileHits, fixture.mobile['1276003001']);
+    assert.equal(checks[0].restHits, fixture.rest['1276003001046']);
+  });
+
+  test('records only geocodes that are in the registry', () => {
+    for (const geocode of [...Object.keys(fixture.mobile), ...Object.keys(fixture.rest)]) {
+      assert.ok(registry.findByGeocode(geocode), `${geocode} is not in the registry`);
+    }
+  });
+
+  test('fails geocodes without hits', async () => {
+    const berlin = registry.findByGeocode('1276003001')!;
+    const counter = createFixtureCounter({ mobile: { '1276003001': 12 }, rest: { '1276003001046': 0 } });
+
+    const [check] = await verifyGeocodes([berlin], counter, true);
+
+    assert.equal(check.ok, false);
+    assert.equal(check.restHits, 0);
+  });
+
+  test('rejects geocodes missing from the fixture', async () => {
+    const munich = registry.findByGeocode('1276009162')!;
+
+    await assert.rejects(
+      verifyGeocodes([munich], createFixtureCounter(fixture)),
+      /No mobile hit count recorded for geocode 1276009162/
+    );
+  });
+
+  test('rejects a missing REST count when checking REST', async () => {
+    const berlin = registry.findByGeocode('1276003001')!;
+    const counter = createFixtureCounter({ mobile: fixture.mobile, rest: {} });
+
+    await assert.rejects(verifyGeocodes([berlin], counter, true), /No rest hit count recorded for geocode 1276003001046/);
+  });
+});